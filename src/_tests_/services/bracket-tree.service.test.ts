@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildBracketTree, type BracketFixtureRow } from '../../services/bracket-tree.service';
+
+function fixture(
+  id: string,
+  metadata: Record<string, unknown>,
+  participants: Array<{ user_id: string; side: string }> = [],
+  status = 'scheduled'
+): BracketFixtureRow {
+  return { id, status, starts_at: null, metadata, participants };
+}
+
+test('buildBracketTree nests semi-finals under the final and marks TBD slots', () => {
+  const fixtures = [
+    fixture(
+      'final',
+      { bracket: 'main', round: 2, match_number: 3, round_label: 'Final' },
+      [{ user_id: 'p1', side: 'A' }],
+      'pending_participants'
+    ),
+    fixture(
+      'semi-1',
+      {
+        bracket: 'main',
+        round: 1,
+        match_number: 1,
+        seed_a: 1,
+        seed_b: 4,
+        next_fixture_id: 'final',
+        bracket_slot: 'A',
+        final_result: { winner: 'A', sets: [[6, 3], [6, 4]] },
+      },
+      [
+        { user_id: 'p1', side: 'A' },
+        { user_id: 'p4', side: 'B' },
+      ],
+      'finalized'
+    ),
+    fixture(
+      'semi-2',
+      { bracket: 'main', round: 1, match_number: 2, next_fixture_id: 'final', bracket_slot: 'B' },
+      [
+        { user_id: 'p2', side: 'A' },
+        { user_id: 'p3', side: 'B' },
+      ]
+    ),
+  ];
+
+  const tree = buildBracketTree(
+    fixtures,
+    new Map([['p1', { user_id: 'p1', name: 'Pat', avatar_url: null }]])
+  );
+
+  assert.equal(tree.roots.length, 1);
+  const final = tree.roots[0];
+  assert.equal(final.fixtureId, 'final');
+  assert.equal(final.sideA.players[0].name, 'Pat');
+  assert.equal(final.sideB.tbd, true);
+  assert.deepEqual(final.sideB.source, { fixtureId: 'semi-2', outcome: 'winner' });
+  assert.equal(final.children.A?.winner, 'A');
+  assert.deepEqual(final.children.A?.sets, [
+    [6, 3],
+    [6, 4],
+  ]);
+  assert.equal(final.children.A?.sideB.seed, 4);
+  assert.equal(final.children.B?.fixtureId, 'semi-2');
+  assert.deepEqual(
+    tree.rounds.map((round) => [round.round, round.fixtureIds]),
+    [
+      [1, ['semi-1', 'semi-2']],
+      [2, ['final']],
+    ]
+  );
+});
+
+test('buildBracketTree keeps loser-fed fixtures as separate roots', () => {
+  const fixtures = [
+    fixture('final', { bracket: 'main', round: 2, match_number: 3 }),
+    fixture('third', { bracket: 'third_place', round: 1, match_number: 4, needs_review: true }),
+    fixture('semi-1', {
+      bracket: 'main',
+      round: 1,
+      match_number: 1,
+      next_fixture_id: 'final',
+      bracket_slot: 'A',
+      loser_next_fixture_id: 'third',
+      loser_bracket_slot: 'A',
+    }),
+  ];
+
+  const tree = buildBracketTree(fixtures, new Map());
+
+  assert.deepEqual(
+    tree.roots.map((node) => node.fixtureId),
+    ['final', 'third']
+  );
+  assert.deepEqual(tree.roots[1].sideA.source, { fixtureId: 'semi-1', outcome: 'loser' });
+  assert.equal(tree.roots[1].children.A, null);
+  assert.equal(tree.roots[1].needsReview, true);
+  assert.equal(tree.roots[0].needsReview, false);
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  allocateCourtSlots,
+  spreadAcrossMatchNights,
+} from '../../services/court-allocation.service';
+import { type ScheduledFixture } from '../../services/fixture-schedule.service';
+
+test('allocateCourtSlots fills surfaces per slot without double-booking players', () => {
+  const fixtures: ScheduledFixture[] = [
+    { weekNumber: 1, sideA: ['u1'], sideB: ['u2'] },
+    { weekNumber: 1, sideA: ['u3'], sideB: ['u4'] },
+    { weekNumber: 1, sideA: ['u1'], sideB: ['u3'] },
+    { weekNumber: 2, sideA: ['u1'], sideB: ['u2'] },
+  ];
+
+  const allocations = allocateCourtSlots(
+    fixtures,
+    [{ courtId: 'court-1', surfaces: 2 }],
+    ['18:00', '19:30']
+  );
+
+  assert.deepEqual(allocations, [
+    { courtId: 'court-1', surface: 1, timeSlot: '18:00' },
+    { courtId: 'court-1', surface: 2, timeSlot: '18:00' },
+    { courtId: 'court-1', surface: 1, timeSlot: '19:30' },
+    { courtId: 'court-1', surface: 1, timeSlot: '18:00' },
+  ]);
+});
+
+test('allocateCourtSlots reports fixtures that do not fit as null', () => {
+  const fixtures: ScheduledFixture[] = [
+    { weekNumber: 1, sideA: ['u1'], sideB: ['u2'] },
+    { weekNumber: 1, sideA: ['u3'], sideB: ['u4'] },
+  ];
+
+  const allocations = allocateCourtSlots(fixtures, [{ courtId: 'court-1', surfaces: 1 }], ['18:00']);
+
+  assert.equal(allocations[1], null);
+});
+
+test('spreadAcrossMatchNights keeps players to one match per night', () => {
+  const fixtures: ScheduledFixture[] = [
+    { weekNumber: 1, sideA: ['u1'], sideB: ['u2'] },
+    { weekNumber: 1, sideA: ['u1'], sideB: ['u3'] },
+    { weekNumber: 1, sideA: ['u3'], sideB: ['u4'] },
+    { weekNumber: 1, sideA: ['u5'], sideB: ['u6'] },
+    { weekNumber: 2, sideA: ['u1'], sideB: ['u2'] },
+  ];
+
+  const nights = spreadAcrossMatchNights(fixtures, new Map([[1, 2]]));
+
+  assert.deepEqual(nights, [0, 1, 0, 1, 0]);
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { getDivisionHistory, planDivisionMovements } from '../../services/division.service';
+
+test('planDivisionMovements swaps the top and bottom players of neighbouring divisions', () => {
+  const plan = planDivisionMovements(
+    [
+      ['a1', 'a2', 'a3', 'a4'],
+      ['b1', 'b2', 'b3', 'b4'],
+      ['c1', 'c2', 'c3', 'c4'],
+    ],
+    1,
+    1
+  );
+
+  assert.deepEqual(plan.divisions, [
+    ['a1', 'a2', 'a3', 'b1'],
+    ['a4', 'b2', 'b3', 'c1'],
+    ['b4', 'c2', 'c3', 'c4'],
+  ]);
+  assert.deepEqual(
+    plan.movements.map((move) => [
+      move.user_id,
+      move.from_division,
+      move.to_division,
+      move.direction,
+    ]),
+    [
+      ['a4', 1, 2, 'relegated'],
+      ['b1', 2, 1, 'promoted'],
+      ['b4', 2, 3, 'relegated'],
+      ['c1', 3, 2, 'promoted'],
+    ]
+  );
+});
+
+test('planDivisionMovements keeps a player promoted rather than also relegated', () => {
+  const plan = planDivisionMovements([['a1', 'a2'], ['b1', 'b2'], ['c1', 'c2']], 2, 2);
+
+  assert.equal(plan.movements.filter((move) => move.user_id === 'b1').length, 1);
+  assert.deepEqual(plan.divisions, [
+    ['b1', 'b2'],
+    ['a1', 'a2', 'c1', 'c2'],
+    [],
+  ]);
+});
+
+test('getDivisionHistory skips malformed entries', () => {
+  const history = getDivisionHistory({
+    divisions: {
+      history: [
+        { season_id: 's2', season_number: 2, movements: [] },
+        { season_number: 3 },
+        'bad',
+      ],
+    },
+  });
+
+  assert.deepEqual(history.map((entry) => entry.season_id), ['s2']);
+});
@@ -1,10 +1,23 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 import {
+  diffScheduledFixtures,
   generateDoublesAssignedSchedule,
   generateDoublesRandomSchedule,
+  generateDoublesRotationSchedule,
   generateSinglesSchedule,
+  getCurrentSeasonFixtures,
+  generateSwissRound,
+  getFixtureKey,
+  getPairingKey,
+  getRoundRobinRoundCount,
+  planDepartureFixtures,
+  planJoinerFixtures,
+  planRemainingFixtures,
+  rebalanceForAvailability,
+  type UnavailableByWeek,
 } from '../../services/fixture-schedule.service';
+import { createSeededRandom } from '../../utils/random';
 
 test('generateSinglesSchedule creates weekly non-BYE pairings', () => {
   const fixtures = generateSinglesSchedule(['u1', 'u2', 'u3', 'u4'], 3);
@@ -42,3 +55,235 @@ test('generateDoublesAssignedSchedule respects fixed team pairs', () => {
     assert.deepEqual(fixture.sideB, ['u3', 'u4']);
   }
 });
+
+test('rebalanceForAvailability defers unavailable pairings to the next week both players are free', () => {
+  const unavailableByWeek: UnavailableByWeek = new Map([[1, new Set(['u1'])]]);
+  const { fixtures, unplaced } = rebalanceForAvailability(
+    [
+      { weekNumber: 1, sideA: ['u1'], sideB: ['u2'] },
+      { weekNumber: 1, sideA: ['u3'], sideB: ['u4'] },
+      { weekNumber: 2, sideA: ['u1'], sideB: ['u3'] },
+      { weekNumber: 3, sideA: ['u3'], sideB: ['u4'] },
+    ],
+    3,
+    unavailableByWeek
+  );
+
+  assert.equal(fixtures.length, 4);
+  assert.deepEqual(unplaced, []);
+  assert.ok(
+    fixtures
+      .filter((fixture) => fixture.weekNumber === 1)
+      .every((fixture) => !fixture.sideA.includes('u1') && !fixture.sideB.includes('u1'))
+  );
+  const deferred = fixtures.find((fixture) => fixture.deferredFromWeek === 1);
+  assert.deepEqual(deferred, { weekNumber: 3, sideA: ['u1'], sideB: ['u2'], deferredFromWeek: 1 });
+});
+
+test('rebalanceForAvailability returns fixtures that find no free week as unplaced', () => {
+  const unavailableByWeek: UnavailableByWeek = new Map([[1, new Set(['a'])]]);
+  const { fixtures, unplaced } = rebalanceForAvailability(
+    generateSinglesSchedule(['a', 'b', 'c', 'd'], 3),
+    3,
+    unavailableByWeek
+  );
+
+  assert.equal(fixtures.length + unplaced.length, 6);
+  assert.equal(unplaced.length, 1);
+  assert.ok([...unplaced[0].sideA, ...unplaced[0].sideB].includes('a'));
+});
+
+test('generateDoublesRandomSchedule leaves out unavailable members for that week', () => {
+  const unavailableByWeek: UnavailableByWeek = new Map([[1, new Set(['a'])]]);
+  const fixtures = generateDoublesRandomSchedule(['a', 'b', 'c', 'd', 'e'], 1, {
+    unavailableByWeek,
+  });
+
+  assert.equal(fixtures.length, 1);
+  assert.ok(!fixtures[0].sideA.includes('a') && !fixtures[0].sideB.includes('a'));
+});
+
+test('generateSinglesSchedule mirrors the second leg and stops after the requested legs', () => {
+  const memberIds = ['u1', 'u2', 'u3', 'u4'];
+  const fixtures = generateSinglesSchedule(memberIds, 10, { legs: 2 });
+  const roundCount = getRoundRobinRoundCount(memberIds.length);
+
+  assert.equal(roundCount, 3);
+  assert.equal(fixtures.length, 12);
+  assert.ok(fixtures.every((fixture) => fixture.weekNumber <= roundCount * 2));
+
+  const firstLeg = fixtures.filter((fixture) => fixture.weekNumber <= roundCount);
+  const secondLeg = fixtures.filter((fixture) => fixture.weekNumber > roundCount);
+  for (const fixture of firstLeg) {
+    const mirrored = secondLeg.find(
+      (candidate) =>
+        candidate.weekNumber === fixture.weekNumber + roundCount &&
+        candidate.sideA[0] === fixture.sideB[0] &&
+        candidate.sideB[0] === fixture.sideA[0]
+    );
+    assert.ok(mirrored);
+  }
+
+  const homeCounts = new Map<string, number>();
+  for (const fixture of firstLeg) {
+    homeCounts.set(fixture.sideA[0], (homeCounts.get(fixture.sideA[0]) || 0) + 1);
+  }
+  for (const memberId of memberIds) {
+    const home = homeCounts.get(memberId) || 0;
+    assert.ok(home >= 1 && home <= 2);
+  }
+});
+
+test('generateSwissRound pairs neighbours in the standings and avoids rematches', () => {
+  const entrants = ['p1', 'p2', 'p3', 'p4'].map((userId, index) => ({
+    userId,
+    points: 3 - index,
+  }));
+  const round = generateSwissRound(entrants, 2, {
+    playedPairs: new Set([getPairingKey('p1', 'p2')]),
+    byeCounts: new Map(),
+  });
+
+  assert.equal(round.byeUserId, null);
+  assert.equal(round.rematches, 0);
+  assert.deepEqual(
+    round.fixtures.map((fixture) => [fixture.sideA[0], fixture.sideB[0]]),
+    [
+      ['p1', 'p3'],
+      ['p2', 'p4'],
+    ]
+  );
+});
+
+test('generateSwissRound gives the bye to the lowest-ranked player without one', () => {
+  const entrants = ['p1', 'p2', 'p3', 'p4', 'p5'].map((userId) => ({ userId, points: 0 }));
+  const round = generateSwissRound(entrants, 3, {
+    playedPairs: new Set(),
+    byeCounts: new Map([['p5', 1]]),
+  });
+
+  assert.equal(round.byeUserId, 'p4');
+  assert.equal(round.fixtures.length, 2);
+  assert.ok(round.fixtures.every((fixture) => fixture.weekNumber === 3));
+});
+
+test('generateDoublesRotationSchedule avoids repeat partners and opponents', () => {
+  const memberIds = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+  const { fixtures, fairness } = generateDoublesRotationSchedule(memberIds, 3);
+
+  assert.equal(fixtures.length, 6);
+  assert.equal(fairness.partnerRepeats, 0);
+  assert.equal(fairness.opponentRepeats, 0);
+  assert.equal(fairness.uniquePartners.a, 3);
+});
+
+test('generateDoublesRotationSchedule rotates sit-outs when the count is not a multiple of four', () => {
+  const memberIds = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'];
+  const { fairness } = generateDoublesRotationSchedule(memberIds, 4);
+
+  assert.ok(Object.values(fairness.sitOuts).every((count) => count <= 1));
+  assert.equal(
+    Object.values(fairness.sitOuts).reduce((sum, count) => sum + count, 0),
+    4
+  );
+});
+
+test('planRemainingFixtures strikes off played pairings and packs the rest from fromWeek', () => {
+  const planned = generateSinglesSchedule(['a', 'b', 'c', 'd'], 3);
+  const played = planned.filter((fixture) => fixture.weekNumber === 1);
+
+  const remaining = planRemainingFixtures(planned, played, 2, 3);
+
+  assert.equal(remaining.fixtures.length, 4);
+  assert.equal(remaining.unplaced.length, 0);
+  const playedKeys = new Set(played.map(getFixtureKey));
+  assert.ok(remaining.fixtures.every((fixture) => !playedKeys.has(getFixtureKey(fixture))));
+  assert.ok(remaining.fixtures.every((fixture) => fixture.weekNumber >= 2));
+});
+
+test('diffScheduledFixtures separates moved, added and removed pairings', () => {
+  const diff = diffScheduledFixtures(
+    [
+      { weekNumber: 2, sideA: ['a'], sideB: ['b'] },
+      { weekNumber: 2, sideA: ['c'], sideB: ['d'] },
+      { weekNumber: 3, sideA: ['a'], sideB: ['c'] },
+    ],
+    [
+      { weekNumber: 2, sideA: ['b'], sideB: ['a'] },
+      { weekNumber: 4, sideA: ['c'], sideB: ['d'] },
+      { weekNumber: 3, sideA: ['a'], sideB: ['e'] },
+    ]
+  );
+
+  assert.equal(diff.unchanged, 1);
+  assert.deepEqual(diff.moved, [{ sideA: ['c'], sideB: ['d'], fromWeek: 2, toWeek: 4 }]);
+  assert.deepEqual(diff.added, [{ weekNumber: 3, sideA: ['a'], sideB: ['e'] }]);
+  assert.deepEqual(diff.removed, [{ weekNumber: 3, sideA: ['a'], sideB: ['c'] }]);
+});
+
+test('planJoinerFixtures takes over each remaining week bye', () => {
+  const fixtures = generateSinglesSchedule(['a', 'b', 'c'], 3);
+
+  const added = planJoinerFixtures('d', fixtures, ['a', 'b', 'c', 'd'], 1, 2, 3);
+
+  assert.equal(added.length, 2);
+  for (const fixture of added) {
+    assert.deepEqual(fixture.sideA, ['d']);
+    const busy = fixtures
+      .filter((entry) => entry.weekNumber === fixture.weekNumber)
+      .flatMap((entry) => [...entry.sideA, ...entry.sideB]);
+    assert.ok(!busy.includes(fixture.sideB[0]));
+  }
+});
+
+test('getCurrentSeasonFixtures leaves earlier seasons out of a joiner patch', () => {
+  const fixtures = [
+    { weekNumber: 6, sideA: ['a'], sideB: ['b'], status: 'finalized', seasonId: 's1' },
+    ...generateSinglesSchedule(['a', 'b', 'c'], 3).map((fixture) => ({
+      ...fixture,
+      status: fixture.weekNumber === 1 ? 'finalized' : 'scheduled',
+      seasonId: 's2',
+    })),
+  ];
+
+  const current = getCurrentSeasonFixtures(fixtures, 's2');
+  const fromWeek =
+    Math.max(
+      0,
+      ...current.filter((fixture) => fixture.status !== 'scheduled').map((fixture) => fixture.weekNumber)
+    ) + 1;
+  const added = planJoinerFixtures('d', current, ['a', 'b', 'c', 'd'], 1, fromWeek, 3);
+
+  assert.equal(current.length, 3);
+  assert.equal(fromWeek, 2);
+  assert.deepEqual(
+    added.map((fixture) => fixture.weekNumber),
+    [2, 3]
+  );
+  assert.equal(getCurrentSeasonFixtures(fixtures, null).length, 4);
+});
+
+test('planDepartureFixtures moves fixtures to a free player or cancels them', () => {
+  const open = [
+    { id: 'f1', weekNumber: 1, sideA: ['a'], sideB: ['x'] },
+    { id: 'f2', weekNumber: 2, sideA: ['x'], sideB: ['b'] },
+    { id: 'f3', weekNumber: 2, sideA: ['a'], sideB: ['c'] },
+  ];
+  const played = [{ weekNumber: 1, sideA: ['b'], sideB: ['c'] }];
+
+  const plan = planDepartureFixtures('x', open, played, ['a', 'b', 'c']);
+
+  assert.deepEqual(plan.moved, []);
+  assert.deepEqual(plan.cancelled, ['f1', 'f2']);
+
+  const withBye = planDepartureFixtures('x', open.slice(0, 1), [], ['a', 'b', 'c']);
+  assert.deepEqual(withBye.moved, [{ id: 'f1', replacementId: 'b' }]);
+});
+
+test('generateDoublesRotationSchedule reproduces the draw for the same seed', () => {
+  const memberIds = ['u1', 'u2', 'u3', 'u4', 'u5', 'u6', 'u7', 'u8', 'u9'];
+  const draw = (seed: string) =>
+    generateDoublesRotationSchedule(memberIds, 4, { random: createSeededRandom(seed) }).fixtures;
+
+  assert.deepEqual(draw('league-42'), draw('league-42'));
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildLadderOrder,
+  buildLadderStandings,
+  getChallengeError,
+  getLadderStartingOrder,
+  type LadderResult,
+} from '../../services/ladder.service';
+
+test('buildLadderOrder swaps places when the challenger wins', () => {
+  const results: LadderResult[] = [
+    { challengerId: 'c', defenderId: 'a', winner: 'A' },
+    { challengerId: 'd', defenderId: 'b', winner: 'B' },
+  ];
+
+  assert.deepEqual(buildLadderOrder(['a', 'b', 'c', 'd'], results), ['c', 'b', 'a', 'd']);
+});
+
+test('buildLadderOrder ignores results for departed players and challengers already above', () => {
+  const results: LadderResult[] = [
+    { challengerId: 'x', defenderId: 'a', winner: 'A' },
+    { challengerId: 'a', defenderId: 'b', winner: 'A' },
+  ];
+
+  assert.deepEqual(buildLadderOrder(['a', 'b', 'c'], results), ['a', 'b', 'c']);
+});
+
+test('getChallengeError enforces direction and range', () => {
+  const order = ['a', 'b', 'c', 'd', 'e'];
+
+  assert.equal(getChallengeError(order, 'e', 'b', 3), null);
+  assert.match(getChallengeError(order, 'e', 'a', 3) || '', /up to 3 places/);
+  assert.match(getChallengeError(order, 'b', 'c', 3) || '', /above you/);
+  assert.match(getChallengeError(order, 'b', 'b', 3) || '', /above you/);
+  assert.match(getChallengeError(order, 'z', 'a', 3) || '', /not on this ladder/);
+});
+
+test('buildLadderStandings counts climbs, defenses and open challenges', () => {
+  const results: LadderResult[] = [
+    { challengerId: 'b', defenderId: 'a', winner: 'A', forfeit: true },
+    { challengerId: 'c', defenderId: 'b', winner: 'B' },
+  ];
+  const order = buildLadderOrder(['a', 'b', 'c'], results);
+  const rows = buildLadderStandings(
+    order,
+    results,
+    [
+      { user_id: 'a', name: 'Ann', avatar_url: null },
+      { user_id: 'b', name: 'Ben', avatar_url: null },
+      { user_id: 'c', name: 'Cat', avatar_url: null },
+    ],
+    new Set(['c'])
+  );
+
+  assert.deepEqual(
+    rows.map((row) => [row.position, row.user_id, row.played, row.climbs, row.defenses]),
+    [
+      [1, 'b', 2, 1, 1],
+      [2, 'a', 1, 0, 0],
+      [3, 'c', 1, 0, 0],
+    ]
+  );
+  assert.equal(rows[0].wins, 2);
+  assert.equal(rows[1].losses, 1);
+  assert.equal(rows[2].in_challenge, true);
+});
+
+test('getLadderStartingOrder keeps appended joiners below replayed results', () => {
+  const members = [
+    { user_id: 'bob', name: 'Bob', avatar_url: null },
+    { user_id: 'dave', name: 'Dave', avatar_url: null },
+    { user_id: 'alice', name: 'Alice', avatar_url: null },
+  ];
+  const results: LadderResult[] = [{ challengerId: 'dave', defenderId: 'bob', winner: 'A' }];
+
+  assert.deepEqual(getLadderStartingOrder(null, members), ['alice', 'bob', 'dave']);
+  assert.deepEqual(
+    buildLadderOrder(getLadderStartingOrder(['bob', 'dave', 'alice', 'gone'], members), results),
+    ['dave', 'bob', 'alice']
+  );
+});
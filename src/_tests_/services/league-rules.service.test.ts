@@ -1,7 +1,19 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 import {
+  getBlackoutDates,
+  getConfiguredCourts,
+  getConfiguredDivisions,
   getConfiguredFixedPairs,
+  getConfiguredMatchDays,
+  getConfiguredTimeSlots,
+  getDivisionMovementCounts,
+  getLadderAcceptanceHours,
+  getLadderChallengeRange,
+  getLeagueTimeZone,
+  getRoundRobinLegs,
+  getStandingsPoints,
+  getStandingsTiebreakers,
   isAssignedDoublesLeague,
 } from '../../services/league-rules.service';
 import { type LeagueRow } from '../../services/league.service';
@@ -49,3 +61,118 @@ test('getConfiguredFixedPairs ignores invalid and duplicate assignments', () =>
 
   assert.deepEqual(result, [['u1', 'u2']]);
 });
+
+test('getRoundRobinLegs maps schedule.format to a leg count', () => {
+  assert.equal(getRoundRobinLegs({}), null);
+  assert.equal(getRoundRobinLegs({ schedule: { format: 'single_rr' } }), 1);
+  assert.equal(getRoundRobinLegs({ schedule: { format: 'double_rr' } }), 2);
+  assert.equal(getRoundRobinLegs({ schedule: { format: 'n_legs', legs: 3 } }), 3);
+  assert.ok(Number.isNaN(getRoundRobinLegs({ schedule: { format: 'n_legs', legs: 0 } })));
+});
+
+test('getConfiguredCourts and getConfiguredTimeSlots skip malformed entries', () => {
+  const rules: RulesObject = {
+    schedule: {
+      courts: [
+        { court_id: 'c1', surfaces: 3 },
+        { court_id: 'c2' },
+        { court_id: 'c1' },
+        { surfaces: 2 },
+      ],
+      time_slots: ['19:30', '18:00', '25:00', '18:00'],
+    },
+  };
+
+  assert.deepEqual(getConfiguredCourts(rules), [
+    { courtId: 'c1', surfaces: 3 },
+    { courtId: 'c2', surfaces: 1 },
+  ]);
+  assert.deepEqual(getConfiguredTimeSlots(rules), ['18:00', '19:30']);
+});
+
+test('getBlackoutDates merges blackout dates, ranges and holidays', () => {
+  const rules: RulesObject = {
+    schedule: {
+      blackout_dates: ['2026-04-05', { from: '2026-12-24', to: '2026-12-26' }, 'not-a-date'],
+      holidays: [{ date: '2026-05-25', name: 'Memorial Day' }, '2026-04-05'],
+    },
+  };
+
+  assert.deepEqual(getBlackoutDates(rules), [
+    '2026-04-05',
+    '2026-05-25',
+    '2026-12-24',
+    '2026-12-25',
+    '2026-12-26',
+  ]);
+  assert.deepEqual(getBlackoutDates({}), []);
+});
+
+test('getLeagueTimeZone falls back to UTC for missing or unknown zones', () => {
+  assert.equal(getLeagueTimeZone({ schedule: { timezone: 'America/Chicago' } }), 'America/Chicago');
+  assert.equal(getLeagueTimeZone({ schedule: { timezone: 'Somewhere/Else' } }), 'UTC');
+  assert.equal(getLeagueTimeZone({}), 'UTC');
+});
+
+test('getConfiguredMatchDays parses weekday names and numbers with start times', () => {
+  const rules: RulesObject = {
+    schedule: {
+      match_days: [
+        { day: 'Thursday', start_time: '19:30' },
+        { day: 'tue' },
+        { day: 2, start_time: '18:00' },
+        { day: 'someday' },
+        { day: 0, start_time: '25:00' },
+      ],
+    },
+  };
+
+  assert.deepEqual(getConfiguredMatchDays(rules), [
+    { weekday: 0, startTime: null },
+    { weekday: 2, startTime: null },
+    { weekday: 4, startTime: '19:30' },
+  ]);
+  assert.deepEqual(getConfiguredMatchDays({}), []);
+});
+
+test('ladder getters read challenge range and acceptance window with defaults', () => {
+  assert.equal(getLadderChallengeRange({}), 3);
+  assert.equal(getLadderAcceptanceHours({}), 72);
+  assert.equal(getLadderChallengeRange({ ladder: { challenge_range: 0 } }), 3);
+  assert.equal(getLadderChallengeRange({ ladder: { challenge_range: 5 } }), 5);
+  assert.equal(getLadderAcceptanceHours({ ladder: { acceptance_hours: 48 } }), 48);
+});
+
+test('getConfiguredDivisions drops unknown and repeated ids and seats unassigned members last', () => {
+  const rules: RulesObject = {
+    divisions: { assignments: [['a', 'b', 'x'], ['y'], 'bad', ['b', 'c']] },
+  };
+
+  // Emptied divisions keep their place so division 4 stays division 4
+  assert.deepEqual(getConfiguredDivisions(rules, ['a', 'b', 'c', 'd']), [
+    ['a', 'b'],
+    [],
+    [],
+    ['c', 'd'],
+  ]);
+  assert.deepEqual(getConfiguredDivisions({ divisions: { assignments: [['x']] } }, ['a']), []);
+  assert.deepEqual(getConfiguredDivisions({}, ['a', 'b']), []);
+  assert.deepEqual(getDivisionMovementCounts({ divisions: { promotion_count: 2 } }), {
+    promotion: 2,
+    relegation: 1,
+  });
+});
+
+test('standings getters read match points and keep known tiebreakers in order', () => {
+  const rules: RulesObject = {
+    standings: {
+      points: { win: 3, draw: 1, loss: 0, close_loss_bonus: 1, close_loss_margin: 0 },
+      tiebreakers: ['head_to_head', 'points', 'bogus', 'head_to_head', 'set_difference'],
+    },
+  };
+
+  assert.deepEqual(getStandingsPoints(rules), { win: 3, draw: 1, loss: 0, closeLossBonus: 1 });
+  assert.deepEqual(getStandingsTiebreakers(rules), ['head_to_head', 'points', 'set_difference']);
+  assert.deepEqual(getStandingsPoints({}), {});
+  assert.equal(getStandingsTiebreakers({ standings: { tiebreakers: ['bogus'] } }), null);
+});
@@ -1,8 +1,10 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 import {
+  calculateGroupStandings,
   calculateStandings,
   calculateTeamStandings,
+  excludeDepartedResults,
   type RankingMatch,
   type RankingMember,
   type RankingParticipant,
@@ -103,7 +105,7 @@ test('calculateTeamStandings aggregates doubles pair records', () => {
     { match_id: 'd2', user_id: 'u4', team: 'B', score: null, time_seconds: null, points: null },
   ];
 
-  const standings = calculateTeamStandings(matches, participants, members);
+  const standings = calculateTeamStandings('doubles', matches, participants, members);
   const teamA = standings.find((standing) => standing.team_key === 'u1+u2');
   const teamB = standings.find((standing) => standing.team_key === 'u3+u4');
 
@@ -113,3 +115,337 @@ test('calculateTeamStandings aggregates doubles pair records', () => {
   assert.equal(teamA?.winPct, 50);
   assert.equal(teamB?.winPct, 50);
 });
+
+test('calculateGroupStandings ranks each pool on its own matches', () => {
+  const matches: RankingMatch[] = [
+    { id: 'm1', status: 'completed', week_number: 1, winner: 'B', group: 'A' },
+    { id: 'm2', status: 'completed', week_number: 1, winner: 'A', group: 'B' },
+  ];
+  const participants: RankingParticipant[] = [
+    { match_id: 'm1', user_id: 'u1', team: 'A', score: null, time_seconds: null, points: null },
+    { match_id: 'm1', user_id: 'u2', team: 'B', score: null, time_seconds: null, points: null },
+    { match_id: 'm2', user_id: 'u3', team: 'A', score: null, time_seconds: null, points: null },
+    { match_id: 'm2', user_id: 'u4', team: 'B', score: null, time_seconds: null, points: null },
+  ];
+  const groupMembers = new Map([
+    ['B', ['u3', 'u4']],
+    ['A', ['u1', 'u2']],
+  ]);
+
+  const groups = calculateGroupStandings('singles', matches, participants, members, groupMembers);
+
+  assert.deepEqual(
+    groups.map((group) => [group.group, group.standings.map((standing) => standing.user_id)]),
+    [
+      ['A', ['u2', 'u1']],
+      ['B', ['u3', 'u4']],
+    ]
+  );
+});
+
+test('excludeDepartedResults voids matches involving players who left', () => {
+  const matches: RankingMatch[] = [
+    { id: 'm1', status: 'completed', week_number: 1, winner: 'A' },
+    { id: 'm2', status: 'completed', week_number: 1, winner: 'A' },
+  ];
+  const participants: RankingParticipant[] = [
+    { match_id: 'm1', user_id: 'u1', team: 'A', score: null, time_seconds: null, points: null },
+    { match_id: 'm1', user_id: 'gone', team: 'B', score: null, time_seconds: null, points: null },
+    { match_id: 'm2', user_id: 'u2', team: 'A', score: null, time_seconds: null, points: null },
+    { match_id: 'm2', user_id: 'u3', team: 'B', score: null, time_seconds: null, points: null },
+  ];
+
+  const kept = excludeDepartedResults(matches, participants, new Set(['u1', 'u2', 'u3', 'u4']));
+  const standings = calculateStandings('singles', kept.matches, kept.participants, members);
+
+  assert.deepEqual(
+    kept.matches.map((match) => match.id),
+    ['m2']
+  );
+  assert.equal(standings.find((standing) => standing.user_id === 'u1')?.wins, 0);
+  assert.ok(!standings.some((standing) => standing.user_id === 'gone'));
+});
+
+test('calculateStandings applies configured points and names the deciding tiebreaker', () => {
+  const matches: RankingMatch[] = [
+    { id: 'm1', status: 'completed', week_number: 1, winner: 'A' },
+    { id: 'm2', status: 'completed', week_number: 2, winner: 'A' },
+    { id: 'm3', status: 'completed', week_number: 3, winner: 'A' },
+  ];
+  const sets = (values: number[][]) => ({ sets: values });
+  const participants: RankingParticipant[] = [
+    // u2 beats u1 in three sets; u1 and u3 then each beat u4
+    { match_id: 'm1', user_id: 'u2', team: 'A', score: null, time_seconds: null, points: null,
+      set_scores: sets([[6, 4], [3, 6], [6, 4]]) },
+    { match_id: 'm1', user_id: 'u1', team: 'B', score: null, time_seconds: null, points: null },
+    { match_id: 'm2', user_id: 'u1', team: 'A', score: null, time_seconds: null, points: null,
+      set_scores: sets([[6, 0], [6, 0]]) },
+    { match_id: 'm2', user_id: 'u4', team: 'B', score: null, time_seconds: null, points: null },
+    { match_id: 'm3', user_id: 'u3', team: 'A', score: null, time_seconds: null, points: null,
+      set_scores: sets([[6, 4], [6, 4]]) },
+    { match_id: 'm3', user_id: 'u4', team: 'B', score: null, time_seconds: null, points: null },
+  ];
+
+  const standings = calculateStandings('singles', matches, participants, members, {
+    points: { win: 3, loss: 0, closeLossBonus: 1 },
+    tiebreakers: ['points', 'head_to_head', 'set_difference', 'game_difference'],
+  });
+  const byUser = new Map(standings.map((standing) => [standing.user_id, standing]));
+
+  assert.equal(byUser.get('u1')?.points, 4);
+  assert.equal(byUser.get('u2')?.points, 3);
+  assert.equal(byUser.get('u1')?.setDifference, 1);
+  assert.equal(byUser.get('u1')?.gameDifference, 11);
+  assert.deepEqual(
+    standings.map((standing) => [standing.user_id, standing.tiebreaker]),
+    [
+      ['u1', null],
+      ['u3', null],
+      ['u2', 'set_difference'],
+      ['u4', null],
+    ]
+  );
+});
+
+test('calculateStandings uses head-to-head between two level players', () => {
+  const matches: RankingMatch[] = [
+    { id: 'm1', status: 'completed', week_number: 1, winner: 'B' },
+    { id: 'm2', status: 'completed', week_number: 2, winner: 'A' },
+  ];
+  const participants: RankingParticipant[] = [
+    { match_id: 'm1', user_id: 'u1', team: 'A', score: null, time_seconds: null, points: null },
+    { match_id: 'm1', user_id: 'u2', team: 'B', score: null, time_seconds: null, points: null },
+    { match_id: 'm2', user_id: 'u1', team: 'A', score: null, time_seconds: null, points: null },
+    { match_id: 'm2', user_id: 'u3', team: 'B', score: null, time_seconds: null, points: null },
+  ];
+
+  const standings = calculateStandings('singles', matches, participants, members.slice(0, 2), {
+    tiebreakers: ['points', 'head_to_head', 'fewest_played'],
+  });
+
+  assert.deepEqual(
+    standings.map((standing) => [standing.user_id, standing.tiebreaker]),
+    [
+      ['u2', null],
+      ['u1', 'head_to_head'],
+      ['u3', null],
+    ]
+  );
+});
+
+const entry = (matchId: string, userId: string, team: 'A' | 'B'): RankingParticipant => ({
+  match_id: matchId,
+  user_id: userId,
+  team,
+  score: null,
+  time_seconds: null,
+  points: null,
+});
+
+test('calculateStandings breaks a three-way tie with a head-to-head mini-league', () => {
+  // u1, u2 and u3 all finish on two wins; among themselves u1 won twice and u2 once
+  const results: Array<[string, string]> = [
+    ['u1', 'u2'],
+    ['u1', 'u3'],
+    ['u2', 'u3'],
+    ['u4', 'u1'],
+    ['u2', 'u4'],
+    ['u3', 'u4'],
+    ['u3', 'u4'],
+  ];
+  const matches: RankingMatch[] = results.map((_, index) => ({
+    id: `m${index}`,
+    status: 'completed',
+    week_number: index + 1,
+    winner: 'A',
+  }));
+  const participants = results.flatMap(([winner, loser], index) => [
+    entry(`m${index}`, winner, 'A'),
+    entry(`m${index}`, loser, 'B'),
+  ]);
+
+  const standings = calculateStandings('singles', matches, participants, members, {
+    tiebreakers: ['points', 'head_to_head'],
+  });
+
+  assert.deepEqual(
+    standings.map((standing) => [standing.user_id, standing.wins, standing.tiebreaker]),
+    [
+      ['u1', 2, null],
+      ['u2', 2, 'head_to_head'],
+      ['u3', 2, 'head_to_head'],
+      ['u4', 1, null],
+    ]
+  );
+});
+
+test('calculateTeamStandings plays head-to-head between whole pairs', () => {
+  // Pairs: X = u1+u2, Y = u3+u4, Z = u5+u6, W = u7+u8
+  const pairs: Record<string, [string, string]> = {
+    X: ['u1', 'u2'],
+    Y: ['u3', 'u4'],
+    Z: ['u5', 'u6'],
+    W: ['u7', 'u8'],
+  };
+  const results: Array<[string, string]> = [
+    ['X', 'Y'],
+    ['Y', 'Z'],
+    ['Z', 'X'],
+    ['Z', 'W'],
+  ];
+  const matches: RankingMatch[] = results.map((_, index) => ({
+    id: `d${index}`,
+    status: 'completed',
+    week_number: index + 1,
+    winner: 'A',
+  }));
+  const participants = results.flatMap(([winner, loser], index) => [
+    ...pairs[winner].map((userId) => entry(`d${index}`, userId, 'A')),
+    ...pairs[loser].map((userId) => entry(`d${index}`, userId, 'B')),
+  ]);
+
+  const standings = calculateTeamStandings('doubles', matches, participants, members, {
+    tiebreakers: ['points', 'head_to_head'],
+  });
+
+  assert.deepEqual(
+    standings.map((standing) => [standing.team_key, standing.tiebreaker]),
+    [
+      ['u5+u6', null],
+      ['u1+u2', null],
+      ['u3+u4', 'head_to_head'],
+      ['u7+u8', null],
+    ]
+  );
+});
+
+test('calculateStandings applies head-to-head to team_vs_team results', () => {
+  const matches: RankingMatch[] = [
+    { id: 't1', status: 'completed', week_number: 1 },
+    { id: 't2', status: 'completed', week_number: 2 },
+  ];
+  const scored = (matchId: string, userId: string, team: 'A' | 'B', score: number) => ({
+    ...entry(matchId, userId, team),
+    score,
+  });
+  const participants: RankingParticipant[] = [
+    // u2 beats u1 narrowly, u1 wins its other match by more
+    scored('t1', 'u1', 'A', 1),
+    scored('t1', 'u2', 'B', 2),
+    scored('t2', 'u1', 'A', 3),
+    scored('t2', 'u3', 'B', 0),
+  ];
+
+  const byGoals = calculateStandings('team_vs_team', matches, participants, members.slice(0, 2));
+  const byHeadToHead = calculateStandings(
+    'team_vs_team',
+    matches,
+    participants,
+    members.slice(0, 2),
+    { tiebreakers: ['points', 'head_to_head', 'goal_difference'] }
+  );
+
+  assert.deepEqual(
+    byGoals.slice(0, 2).map((standing) => [standing.user_id, standing.tiebreaker]),
+    [
+      ['u1', null],
+      ['u2', 'goal_difference'],
+    ]
+  );
+  assert.deepEqual(
+    byHeadToHead.slice(0, 2).map((standing) => [standing.user_id, standing.tiebreaker]),
+    [
+      ['u2', null],
+      ['u1', 'head_to_head'],
+    ]
+  );
+});
+
+test('calculateTeamStandings keys team_vs_team sides by team id and records draws', () => {
+  const matches: RankingMatch[] = [
+    { id: 't1', status: 'completed', week_number: 1, teams: { A: 'reds', B: 'blues' } },
+    { id: 't2', status: 'completed', week_number: 2, teams: { A: 'blues', B: 'reds' } },
+  ];
+  const scored = (matchId: string, userId: string, team: 'A' | 'B', score: number) => ({
+    ...entry(matchId, userId, team),
+    score,
+  });
+  const participants: RankingParticipant[] = [
+    // reds draw 1-1, then win 2-0 with u2 swapped out for u3
+    scored('t1', 'u1', 'A', 1),
+    scored('t1', 'u2', 'A', 1),
+    scored('t1', 'u4', 'B', 1),
+    scored('t2', 'u4', 'A', 0),
+    scored('t2', 'u1', 'B', 2),
+    scored('t2', 'u3', 'B', 2),
+  ];
+
+  const standings = calculateTeamStandings('team_vs_team', matches, participants, members);
+
+  assert.deepEqual(
+    standings.map((team) => [
+      team.team_key,
+      team.player_ids,
+      team.wins,
+      team.draws,
+      team.losses,
+      team.points,
+      team.goalDifference,
+    ]),
+    [
+      ['reds', ['u1', 'u2', 'u3'], 1, 1, 0, 4, 2],
+      ['blues', ['u4'], 0, 1, 1, 1, -2],
+    ]
+  );
+});
+
+test('calculateStandings counts sets and games and splits level players on them by default', () => {
+  const matches: RankingMatch[] = [
+    { id: 'm1', status: 'completed', week_number: 1, winner: 'A' },
+    { id: 'm2', status: 'completed', week_number: 1, winner: 'A' },
+  ];
+  const withSets = (participant: RankingParticipant, sets: number[][]) => ({
+    ...participant,
+    set_scores: { sets },
+  });
+  const participants: RankingParticipant[] = [
+    // u2's row keeps the score from their own side and must be ignored
+    withSets(entry('m1', 'u2', 'B'), [[4, 6], [6, 4], [5, 7]]),
+    withSets(entry('m1', 'u1', 'A'), [[6, 4], [4, 6], [7, 5]]),
+    withSets(entry('m2', 'u3', 'A'), [[6, 1], [6, 2]]),
+    entry('m2', 'u4', 'B'),
+  ];
+
+  const standings = calculateStandings('doubles', matches, participants, members);
+  const u1 = standings.find((standing) => standing.user_id === 'u1');
+
+  assert.deepEqual([u1?.setsWon, u1?.setsLost, u1?.gamesWon, u1?.gamesLost], [2, 1, 17, 15]);
+  assert.deepEqual(
+    standings.map((standing) => [standing.user_id, standing.tiebreaker]),
+    [
+      ['u3', null],
+      ['u1', 'set_difference'],
+      ['u2', null],
+      ['u4', 'set_difference'],
+    ]
+  );
+
+  const teams = calculateTeamStandings(
+    'doubles',
+    [{ id: 'd1', status: 'completed', week_number: 1, winner: 'B' }],
+    [
+      withSets(entry('d1', 'u1', 'A'), [[4, 6], [6, 7]]),
+      entry('d1', 'u2', 'A'),
+      entry('d1', 'u3', 'B'),
+      entry('d1', 'u4', 'B'),
+    ],
+    members
+  );
+  assert.deepEqual(
+    teams.map((team) => [team.team_key, team.setDifference, team.gameDifference]),
+    [
+      ['u3+u4', 2, 3],
+      ['u1+u2', -2, -3],
+    ]
+  );
+});
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  expandTeamSides,
+  generateDoubleEliminationSchedule,
+  generatePoolPlaySchedule,
+  generateSingleEliminationSchedule,
+  getBracketRoundLabel,
+  getPoolQualifiers,
+  getStandardSeedOrder,
+} from '../../services/tournament-schedule.service';
+import { createSeededRandom } from '../../utils/random';
+
+test('generateSingleEliminationSchedule links each match to the next round', () => {
+  const players = ['p1', 'p2', 'p3', 'p4'];
+  const fixtures = generateSingleEliminationSchedule(players, 'manual', players);
+
+  assert.equal(fixtures.length, 3);
+  const final = fixtures.find((fixture) => fixture.round === 2);
+  assert.ok(final);
+  const feeders = fixtures.filter((fixture) => fixture.nextMatchNumber === final.matchNumber);
+  assert.deepEqual(
+    feeders.map((fixture) => fixture.nextSlot),
+    ['A', 'B']
+  );
+  assert.equal(final.nextMatchNumber, null);
+  assert.equal(getBracketRoundLabel(final, fixtures), 'Final');
+});
+
+test('generateSingleEliminationSchedule never creates fixtures no player can reach', () => {
+  const players = ['p1', 'p2', 'p3', 'p4', 'p5'];
+  const fixtures = generateSingleEliminationSchedule(players, 'manual', players);
+
+  for (const fixture of fixtures.filter((entry) => entry.round === 1)) {
+    assert.ok(fixture.sideA.length + fixture.sideB.length > 0);
+  }
+  const matchNumbers = fixtures.map((fixture) => fixture.matchNumber);
+  assert.deepEqual(matchNumbers, matchNumbers.map((_, index) => index + 1));
+});
+
+test('generateSingleEliminationSchedule feeds semi-final losers into a third-place match', () => {
+  const players = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7', 'p8'];
+  const fixtures = generateSingleEliminationSchedule(players, 'manual', players, Math.random, {
+    thirdPlace: true,
+  });
+  const thirdPlace = fixtures.find((fixture) => fixture.bracket === 'third_place');
+  assert.ok(thirdPlace);
+
+  const semiFinals = fixtures.filter(
+    (fixture) => fixture.bracket === 'main' && fixture.round === 2
+  );
+  assert.deepEqual(
+    semiFinals.map((fixture) => [fixture.loserNextMatchNumber, fixture.loserNextSlot]),
+    [
+      [thirdPlace.matchNumber, 'A'],
+      [thirdPlace.matchNumber, 'B'],
+    ]
+  );
+  assert.equal(thirdPlace.stage, 3);
+  assert.equal(getBracketRoundLabel(thirdPlace, fixtures), 'Third Place');
+});
+
+test('generateSingleEliminationSchedule builds a plate bracket from first-round losers', () => {
+  const players = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7', 'p8'];
+  const fixtures = generateSingleEliminationSchedule(players, 'manual', players, Math.random, {
+    consolation: true,
+  });
+  const byNumber = new Map(fixtures.map((fixture) => [fixture.matchNumber, fixture]));
+  const plate = fixtures.filter((fixture) => fixture.bracket === 'consolation');
+
+  assert.equal(plate.length, 3);
+  const firstRound = fixtures.filter((entry) => entry.bracket === 'main' && entry.round === 1);
+  for (const fixture of firstRound) {
+    assert.equal(byNumber.get(fixture.loserNextMatchNumber ?? -1)?.bracket, 'consolation');
+  }
+  const plateFinal = plate.find((fixture) => fixture.round === 2);
+  assert.ok(plateFinal);
+  assert.equal(getBracketRoundLabel(plateFinal, fixtures), 'Plate Final');
+  assert.equal(plateFinal.stage, 3);
+});
+
+test('expandTeamSides puts every team member on the bracket side', () => {
+  const teams = ['a+b', 'c+d', 'e+f'];
+  const fixtures = expandTeamSides(
+    generateSingleEliminationSchedule(teams, 'manual', teams),
+    new Map([
+      ['a+b', ['a', 'b']],
+      ['c+d', ['c', 'd']],
+      ['e+f', ['e', 'f']],
+    ])
+  );
+
+  const semiFinal = fixtures.find((fixture) => fixture.round === 1 && !fixture.isBye);
+  assert.deepEqual([semiFinal?.sideA, semiFinal?.sideB], [['c', 'd'], ['e', 'f']]);
+  const bye = fixtures.find((fixture) => fixture.isBye);
+  assert.deepEqual(bye?.sideA, ['a', 'b']);
+  assert.equal(bye?.seedA, 1);
+});
+
+test('generateDoubleEliminationSchedule routes winners-bracket losers into the losers bracket', () => {
+  const players = ['p1', 'p2', 'p3', 'p4'];
+  const fixtures = generateDoubleEliminationSchedule(players, 'manual', players);
+  const byNumber = new Map(fixtures.map((fixture) => [fixture.matchNumber, fixture]));
+
+  assert.equal(fixtures.filter((fixture) => fixture.bracket === 'winners').length, 3);
+  assert.equal(fixtures.filter((fixture) => fixture.bracket === 'losers').length, 2);
+  assert.equal(fixtures.filter((fixture) => fixture.bracket === 'grand_final').length, 1);
+  assert.equal(fixtures.filter((fixture) => fixture.bracket === 'grand_final_reset').length, 1);
+
+  for (const fixture of fixtures.filter((entry) => entry.bracket === 'winners')) {
+    assert.ok(fixture.loserNextMatchNumber !== null);
+    assert.equal(byNumber.get(fixture.loserNextMatchNumber)?.bracket, 'losers');
+  }
+
+  const losersFinal = fixtures.find(
+    (fixture) => fixture.bracket === 'losers' && fixture.round === 2
+  );
+  assert.equal(byNumber.get(losersFinal?.nextMatchNumber ?? -1)?.bracket, 'grand_final');
+  assert.ok(fixtures.every((fixture) => !fixture.isBye));
+});
+
+test('generateDoubleEliminationSchedule turns unreachable losers-bracket slots into byes', () => {
+  const players = ['p1', 'p2', 'p3'];
+  const fixtures = generateDoubleEliminationSchedule(players, 'manual', players, {
+    grandFinalReset: false,
+  });
+
+  const firstRoundBye = fixtures.find((fixture) => fixture.bracket === 'winners' && fixture.isBye);
+  assert.ok(firstRoundBye);
+  assert.equal(firstRoundBye.loserNextMatchNumber, null);
+  assert.ok(fixtures.some((fixture) => fixture.bracket === 'losers' && fixture.isBye));
+  assert.ok(!fixtures.some((fixture) => fixture.bracket === 'grand_final_reset'));
+});
+
+test('generateSingleEliminationSchedule places seeds 1 v N and gives byes to top seeds', () => {
+  const players = ['s1', 's2', 's3', 's4', 's5', 's6'];
+  const fixtures = generateSingleEliminationSchedule(players, 'manual', players);
+  const firstRound = fixtures.filter((fixture) => fixture.round === 1);
+
+  assert.deepEqual(
+    firstRound.map((fixture) => [fixture.seedA, fixture.seedB]),
+    [
+      [1, null],
+      [4, 5],
+      [2, null],
+      [3, 6],
+    ]
+  );
+  assert.deepEqual(
+    firstRound.filter((fixture) => fixture.isBye).map((fixture) => fixture.sideA),
+    [['s1'], ['s2']]
+  );
+});
+
+test('getStandardSeedOrder keeps the top two seeds apart until the final', () => {
+  assert.deepEqual(getStandardSeedOrder(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+});
+
+test('generatePoolPlaySchedule snakes seeds across pools and plays a round robin in each', () => {
+  const players = ['s1', 's2', 's3', 's4', 's5', 's6', 's7', 's8'];
+  const schedule = generatePoolPlaySchedule(players, 2, 'manual', players);
+
+  assert.deepEqual(schedule.pools, [
+    ['s1', 's4', 's5', 's8'],
+    ['s2', 's3', 's6', 's7'],
+  ]);
+  assert.equal(schedule.weeks, 3);
+  assert.equal(schedule.fixtures.filter((fixture) => fixture.pool === 'A').length, 6);
+  for (const fixture of schedule.fixtures) {
+    const pool = schedule.pools[fixture.pool === 'A' ? 0 : 1];
+    assert.ok([...fixture.sideA, ...fixture.sideB].every((playerId) => pool.includes(playerId)));
+  }
+});
+
+test('getPoolQualifiers gives pool winners the top knockout seeds', () => {
+  assert.deepEqual(
+    getPoolQualifiers(
+      [
+        ['a1', 'a2', 'a3'],
+        ['b1', 'b2', 'b3'],
+      ],
+      2
+    ),
+    ['a1', 'b1', 'a2', 'b2']
+  );
+});
+
+test('random seeding repeats the same bracket and pools for the same seed', () => {
+  const memberIds = ['u1', 'u2', 'u3', 'u4', 'u5', 'u6'];
+
+  assert.deepEqual(
+    generateSingleEliminationSchedule(memberIds, 'random', undefined, createSeededRandom('cup')),
+    generateSingleEliminationSchedule(memberIds, 'random', undefined, createSeededRandom('cup'))
+  );
+  assert.deepEqual(
+    generatePoolPlaySchedule(memberIds, 2, 'random', undefined, createSeededRandom('cup')).pools,
+    generatePoolPlaySchedule(memberIds, 2, 'random', undefined, createSeededRandom('cup')).pools
+  );
+});
@@ -1,6 +1,16 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
-import { toIsoOrNull, weekEndIso, weekStartIso } from '../../utils/league-dates';
+import {
+  sessionDeadlineIso,
+  isValidTimeZone,
+  matchDayDates,
+  toIsoOrNull,
+  toLocalIso,
+  weekEndIso,
+  weekStartDate,
+  weekStartIso,
+  zonedTimeToIso,
+} from '../../utils/league-dates';
 
 test('weekStartIso returns null when startDate is null or invalid', () => {
   assert.equal(weekStartIso(null, 1), null);
@@ -19,6 +29,35 @@ test('weekStartIso applies provided start time and falls back to noon for invali
   assert.equal(weekStartIso('2026-02-01', 1, 'invalid'), '2026-02-01T12:00:00.000Z');
 });
 
+test('weekStartDate skips weeks that fall on blackout dates', () => {
+  const blackout = ['2026-02-08', '2026-02-15'];
+  assert.equal(weekStartDate('2026-02-01', 1, blackout), '2026-02-01');
+  assert.equal(weekStartDate('2026-02-01', 2, blackout), '2026-02-22');
+  assert.equal(weekStartDate('2026-02-01', 1, ['2026-02-01']), '2026-02-08');
+  assert.equal(weekStartIso('2026-02-01', 3, '18:00', blackout), '2026-03-01T18:00:00.000Z');
+});
+
+test('matchDayDates lists match nights within the week in date order', () => {
+  // 2026-02-01 is a Sunday
+  assert.deepEqual(matchDayDates('2026-02-01', [4, 2]), ['2026-02-03', '2026-02-05']);
+  assert.deepEqual(matchDayDates('2026-02-04', [2, 4]), ['2026-02-05', '2026-02-10']);
+  assert.deepEqual(matchDayDates('2026-02-01'), ['2026-02-01']);
+});
+
+test('weekStartDate only skips a week when all of its match nights are blacked out', () => {
+  assert.equal(weekStartDate('2026-02-01', 2, ['2026-02-10'], [2, 4]), '2026-02-08');
+  assert.equal(weekStartDate('2026-02-01', 2, ['2026-02-10', '2026-02-12'], [2, 4]), '2026-02-15');
+});
+
+test('sessionDeadlineIso ends six days later unless that runs into a blackout', () => {
+  assert.equal(sessionDeadlineIso('2026-02-01T12:00:00.000Z'), '2026-02-07T12:00:00.000Z');
+  assert.equal(
+    sessionDeadlineIso('2026-02-01T12:00:00.000Z', ['2026-02-06', '2026-02-07']),
+    '2026-02-05T12:00:00.000Z'
+  );
+  assert.equal(sessionDeadlineIso(null), null);
+});
+
 test('weekEndIso returns null for empty/invalid startsAt values', () => {
   assert.equal(weekEndIso(null), null);
   assert.equal(weekEndIso('invalid'), null);
@@ -36,3 +75,38 @@ test('toIsoOrNull parses valid date strings and rejects invalid/empty values', (
   assert.equal(toIsoOrNull(123), null);
   assert.equal(toIsoOrNull('not-a-date'), null);
 });
+
+test('weekStartIso keeps the local start time across daylight saving changes', () => {
+  assert.equal(
+    weekStartIso('2026-03-01', 1, '19:00', [], 'America/New_York'),
+    '2026-03-02T00:00:00.000Z'
+  );
+  assert.equal(
+    weekStartIso('2026-03-01', 2, '19:00', [], 'America/New_York'),
+    '2026-03-08T23:00:00.000Z'
+  );
+  assert.equal(
+    sessionDeadlineIso('2026-03-06T00:00:00.000Z', [], 'America/New_York'),
+    '2026-03-11T23:00:00.000Z'
+  );
+});
+
+test('zonedTimeToIso moves clock times in a daylight saving gap past the jump', () => {
+  assert.equal(zonedTimeToIso('2026-03-29', 2, 30, 'Europe/Berlin'), '2026-03-29T01:30:00.000Z');
+  assert.equal(zonedTimeToIso('2026-03-29', 3, 30, 'Europe/Berlin'), '2026-03-29T01:30:00.000Z');
+  assert.equal(zonedTimeToIso('2026-07-01', 19, 0, 'Asia/Kolkata'), '2026-07-01T13:30:00.000Z');
+});
+
+test('toLocalIso renders wall-clock time with the zone offset', () => {
+  assert.equal(
+    toLocalIso('2026-03-09T23:00:00.000Z', 'America/New_York'),
+    '2026-03-09T19:00:00-04:00'
+  );
+  assert.equal(toLocalIso('2026-03-09T23:00:00.000Z'), '2026-03-09T23:00:00+00:00');
+  assert.equal(toLocalIso(null, 'Europe/Berlin'), null);
+});
+
+test('isValidTimeZone accepts IANA names only', () => {
+  assert.equal(isValidTimeZone('Europe/London'), true);
+  assert.equal(isValidTimeZone('Mars/Olympus'), false);
+});
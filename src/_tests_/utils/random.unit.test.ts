@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createSeededRandom, generateSeed, shuffle } from '../../utils/random';
+
+test('createSeededRandom repeats its sequence for the same seed', () => {
+  const first = createSeededRandom('spring-2026');
+  const second = createSeededRandom('spring-2026');
+  const other = createSeededRandom('autumn-2026');
+
+  const sequence = Array.from({ length: 5 }, () => first());
+  assert.deepEqual(Array.from({ length: 5 }, () => second()), sequence);
+  assert.notDeepEqual(Array.from({ length: 5 }, () => other()), sequence);
+  assert.ok(sequence.every((value) => value >= 0 && value < 1));
+});
+
+test('shuffle returns a permutation without changing its input', () => {
+  const items = ['a', 'b', 'c', 'd', 'e'];
+  const shuffled = shuffle(items, createSeededRandom('seed'));
+
+  assert.deepEqual(items, ['a', 'b', 'c', 'd', 'e']);
+  assert.deepEqual([...shuffled].sort(), items);
+  assert.deepEqual(shuffle(items, createSeededRandom('seed')), shuffled);
+});
+
+test('generateSeed returns a fresh hex string', () => {
+  assert.match(generateSeed(), /^[0-9a-f]{16}$/);
+  assert.notEqual(generateSeed(), generateSeed());
+});
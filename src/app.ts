@@ -6,11 +6,14 @@ import { gzipJsonResponses } from './middleware/compression';
 import emailRoutes from './routes/email';
 import leagueAnnouncementsRoutes from './routes/league-announcements';
 import leagueAvailabilityRoutes from './routes/league-availability';
+import leagueDivisionsRoutes from './routes/league-divisions';
+import leagueLadderRoutes from './routes/league-ladder';
 import leaguePlayoffsRoutes from './routes/league-playoffs';
 import leagueSeasonsRoutes from './routes/league-seasons';
 import leagueRoutes from './routes/leagues';
 import leagueFixturesRoutes from './routes/league-fixtures';
 import leagueInvitesRoutes from './routes/league-invites';
+import leagueMembersRoutes from './routes/league-members';
 import leagueScheduleRoutes from './routes/league-schedule';
 import leagueStandingsRoutes from './routes/league-standings';
 import leagueTeamsRoutes from './routes/league-teams';
@@ -52,11 +55,14 @@ app.get('/health', (_req, res) => {
 app.use('/api/email', emailRoutes);
 app.use('/api/leagues', leagueFixturesRoutes);
 app.use('/api/leagues', leagueInvitesRoutes);
+app.use('/api/leagues', leagueMembersRoutes);
 app.use('/api/leagues', leagueScheduleRoutes);
 app.use('/api/leagues', leagueStandingsRoutes);
 app.use('/api/leagues', leagueTeamsRoutes);
 app.use('/api/leagues', leagueAnnouncementsRoutes);
 app.use('/api/leagues', leagueAvailabilityRoutes);
+app.use('/api/leagues', leagueDivisionsRoutes);
+app.use('/api/leagues', leagueLadderRoutes);
 app.use('/api/leagues', leaguePlayoffsRoutes);
 app.use('/api/leagues', leagueSeasonsRoutes);
 app.use('/api/leagues', leagueRoutes);
@@ -5,6 +5,7 @@ import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
 import { getHostName } from '../utils/profile';
 import { notifyUsers } from '../services/notification.service';
 import { advanceTournamentWinner } from '../services/tournament-advance.service';
+import { generatePoolKnockoutIfReady } from '../services/tournament-pools.service';
 import {
   SubmissionRow,
   asObject,
@@ -189,13 +190,16 @@ router.post('/:id/results/confirm', requireAuth, async (req: Request, res: Respo
       disputed: false,
     });
 
-    // Auto-advance tournament winner (non-blocking)
+    // Auto-advance tournament winner and start a pending pool knockout (non-blocking)
     if (finalize) {
       const finalPayload = asObject(submission.payload);
       const winnerSide = typeof finalPayload.winner === 'string' ? finalPayload.winner : null;
       if (winnerSide) {
         advanceTournamentWinner(fixtureId, winnerSide).catch(() => {});
       }
+      generatePoolKnockoutIfReady(fixtureId).catch((error) => {
+        console.error('Pool knockout generation error:', error);
+      });
     }
 
     // Notify submitter that their result was confirmed (non-blocking)
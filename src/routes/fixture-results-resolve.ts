@@ -3,6 +3,11 @@ import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { supabaseAdmin } from '../utils/supabase';
 import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
 import { notifyFixtureParticipants } from '../services/notification.service';
+import {
+  advanceTournamentWinner,
+  applyReviewedSlot,
+} from '../services/tournament-advance.service';
+import { generatePoolKnockoutIfReady } from '../services/tournament-pools.service';
 import { asObject, getFixture } from './fixture-results.shared';
 
 const router: Router = Router();
@@ -103,7 +108,17 @@ router.post('/:id/results/resolve', requireAuth, async (req: Request, res: Respo
       .neq('id', finalizedSubmissionId || '')
       .in('status', ['pending', 'rejected']);
 
-    const existingMetadata = asObject(fixture.metadata);
+    // Resolving settles any review flag left by an overturned earlier round,
+    // first moving the corrected players into the flagged slot
+    await applyReviewedSlot(fixtureId, asObject(fixture.metadata));
+    const {
+      needs_review: _needsReview,
+      review_reason: _reviewReason,
+      review_source_fixture_id: _reviewSource,
+      review_flagged_at: _reviewFlaggedAt,
+      review_incoming: _reviewIncoming,
+      ...existingMetadata
+    } = asObject(fixture.metadata);
     await supabaseAdmin
       .from('league_fixtures')
       .update({
@@ -119,10 +134,20 @@ router.post('/:id/results/resolve', requireAuth, async (req: Request, res: Respo
       })
       .eq('id', fixtureId);
 
+    // Move the (possibly corrected) winner and loser through the bracket
+    const winnerSide = typeof finalPayload.winner === 'string' ? finalPayload.winner : null;
+    const propagation = winnerSide ? await advanceTournamentWinner(fixtureId, winnerSide) : null;
+
     res.json({
       success: true,
       finalized: true,
       submissionId: finalizedSubmissionId,
+      flaggedFixtureIds: propagation?.flaggedFixtureIds ?? [],
+    });
+
+    // Start the knockout once the last pool fixture is in (non-blocking)
+    generatePoolKnockoutIfReady(fixtureId).catch((error) => {
+      console.error('Pool knockout generation error:', error);
     });
 
     // Notify fixture participants that the dispute was resolved (non-blocking)
@@ -5,6 +5,7 @@ import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
 import { getHostName } from '../utils/profile';
 import { notifyFixtureParticipants } from '../services/notification.service';
 import { advanceTournamentWinner } from '../services/tournament-advance.service';
+import { generatePoolKnockoutIfReady } from '../services/tournament-pools.service';
 import { asObject, getFixture } from './fixture-results.shared';
 
 const router: Router = Router();
@@ -36,6 +37,12 @@ router.post('/:id/results/submit', requireAuth, async (req: Request, res: Respon
       return;
     }
 
+    const fixtureMetadata = asObject(fixture.metadata);
+    if (fixtureMetadata.ladder_challenge && fixtureMetadata.challenge_status === 'pending') {
+      res.status(400).json({ error: 'Ladder challenge has not been accepted yet' });
+      return;
+    }
+
     const role = await getLeagueRole(fixture.league_id, userId);
     if (!role) {
       res.status(403).json({ error: 'You must be a league member to submit results' });
@@ -99,13 +106,16 @@ router.post('/:id/results/submit', requireAuth, async (req: Request, res: Respon
       finalized: isOrganizerSubmission,
     });
 
-    // Auto-advance tournament winner (non-blocking)
+    // Auto-advance tournament winner and start a pending pool knockout (non-blocking)
     if (isOrganizerSubmission) {
       const finalPayload = asObject(submission.payload);
       const winnerSide = typeof finalPayload.winner === 'string' ? finalPayload.winner : null;
       if (winnerSide) {
         advanceTournamentWinner(fixtureId, winnerSide).catch(() => {});
       }
+      generatePoolKnockoutIfReady(fixtureId).catch((error) => {
+        console.error('Pool knockout generation error:', error);
+      });
     }
 
     // Send push notification to other fixture participants (non-blocking)
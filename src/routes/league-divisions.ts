@@ -0,0 +1,191 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
+import { getLeague } from '../services/league.service';
+import { supabaseAdmin } from '../utils/supabase';
+import { toRulesObject, type RulesObject } from '../utils/rules';
+import {
+  getConfiguredDivisions,
+  getDivisionMovementCounts,
+} from '../services/league-rules.service';
+import { getDivisionHistory } from '../services/division.service';
+
+const router: Router = Router();
+
+async function loadDivisionMembers(
+  leagueId: string
+): Promise<{ memberIds: string[]; nameById: Map<string, string | null> }> {
+  const { data: memberRows, error: memberError } = await supabaseAdmin
+    .from('league_members')
+    .select('user_id')
+    .eq('league_id', leagueId);
+
+  if (memberError) {
+    throw new Error(memberError.message);
+  }
+
+  const memberIds = (memberRows || []).map((item) => item.user_id);
+  const { data: profiles } = memberIds.length
+    ? await supabaseAdmin.from('profiles').select('id, name').in('id', memberIds)
+    : { data: [] as Array<{ id: string; name: string | null }> };
+  return {
+    memberIds,
+    nameById: new Map((profiles || []).map((profile) => [profile.id, profile.name])),
+  };
+}
+
+function toDivisionResponse(divisions: string[][], nameById: Map<string, string | null>) {
+  return divisions.map((players, index) => ({
+    division: index + 1,
+    players: players.map((playerId) => ({
+      userId: playerId,
+      name: nameById.get(playerId) || null,
+    })),
+  }));
+}
+
+/**
+ * GET /api/leagues/:id/divisions
+ * Box league divisions (top first), movement counts and promotion/relegation history.
+ */
+router.get('/:id/divisions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const { userId } = req as AuthenticatedRequest;
+
+    if (!leagueId) {
+      res.status(400).json({ error: 'league id is required' });
+      return;
+    }
+
+    const role = await getLeagueRole(leagueId, userId);
+    if (!role) {
+      res.status(403).json({ error: 'You must be a league member to view divisions' });
+      return;
+    }
+
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
+
+    const rules = toRulesObject(league.rules_jsonb);
+    const { memberIds, nameById } = await loadDivisionMembers(leagueId);
+    const { promotion, relegation } = getDivisionMovementCounts(rules);
+
+    res.json({
+      divisions: toDivisionResponse(getConfiguredDivisions(rules, memberIds), nameById),
+      promotionCount: promotion,
+      relegationCount: relegation,
+      history: getDivisionHistory(rules),
+    });
+  } catch (error) {
+    console.error('Divisions fetch error:', error);
+    res.status(500).json({ error: 'Failed to load divisions' });
+  }
+});
+
+/**
+ * PUT /api/leagues/:id/divisions
+ * Sets division membership, top division first. Members left out join the bottom division.
+ * Body: { divisions: string[][], promotion_count?, relegation_count? }
+ */
+router.put('/:id/divisions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const { userId } = req as AuthenticatedRequest;
+    const divisionsInput = Array.isArray(req.body?.divisions) ? req.body.divisions : null;
+
+    if (!leagueId) {
+      res.status(400).json({ error: 'league id is required' });
+      return;
+    }
+
+    const role = await getLeagueRole(leagueId, userId);
+    if (!isLeagueAdminRole(role)) {
+      res.status(403).json({ error: 'Only league owner/admin can edit divisions' });
+      return;
+    }
+
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
+    if (league.scoring_format !== 'singles') {
+      res.status(400).json({ error: 'Divisions are only supported for singles leagues' });
+      return;
+    }
+
+    if (!divisionsInput || divisionsInput.length === 0) {
+      res.status(400).json({ error: 'divisions is required and must be a non-empty array' });
+      return;
+    }
+
+    const counts: Record<string, number> = {};
+    for (const key of ['promotion_count', 'relegation_count']) {
+      const value = req.body?.[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        res.status(400).json({ error: `${key} must be a non-negative integer` });
+        return;
+      }
+      counts[key] = value;
+    }
+
+    const { memberIds, nameById } = await loadDivisionMembers(leagueId);
+    const memberIdSet = new Set(memberIds);
+    const used = new Set<string>();
+    const assignments: string[][] = [];
+
+    for (const entry of divisionsInput) {
+      if (!Array.isArray(entry) || entry.length === 0) {
+        res.status(400).json({ error: 'Each division must be a non-empty array of user ids' });
+        return;
+      }
+      for (const playerId of entry) {
+        if (typeof playerId !== 'string' || !memberIdSet.has(playerId)) {
+          res.status(400).json({ error: 'All division players must be current league members' });
+          return;
+        }
+        if (used.has(playerId)) {
+          res.status(400).json({ error: 'Each player can only appear in one division' });
+          return;
+        }
+        used.add(playerId);
+      }
+      assignments.push(entry as string[]);
+    }
+
+    const rules = toRulesObject(league.rules_jsonb);
+    const nextRules: RulesObject = {
+      ...rules,
+      divisions: {
+        ...toRulesObject((rules as Record<string, unknown>).divisions),
+        ...counts,
+        assignments,
+      },
+    };
+
+    const { error: updateError } = await supabaseAdmin
+      .from('leagues')
+      .update({ rules_jsonb: nextRules })
+      .eq('id', leagueId);
+
+    if (updateError) {
+      res.status(500).json({ error: updateError.message });
+      return;
+    }
+
+    res.json({
+      success: true,
+      divisions: toDivisionResponse(getConfiguredDivisions(nextRules, memberIds), nameById),
+    });
+  } catch (error) {
+    console.error('Divisions update error:', error);
+    res.status(500).json({ error: 'Failed to update divisions' });
+  }
+});
+
+export default router;
@@ -2,6 +2,10 @@ import { Request, Response, Router } from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { getLeagueRole } from '../utils/league-access';
 import { supabaseAdmin } from '../utils/supabase';
+import { getLeague } from '../services/league.service';
+import { getLeagueTimeZone } from '../services/league-rules.service';
+import { toLocalIso } from '../utils/league-dates';
+import { toRulesObject } from '../utils/rules';
 
 const router: Router = Router();
 
@@ -125,8 +129,14 @@ router.get('/:id/fixtures', requireAuth, async (req: Request, res: Response) =>
       );
     });
 
+    const league = await getLeague(leagueId);
+    const timeZone = getLeagueTimeZone(toRulesObject(league?.rules_jsonb));
+
     const response = (fixtures || []).map((fixture) => ({
       ...fixture,
+      starts_at_local: toLocalIso(fixture.starts_at, timeZone),
+      ends_at_local: toLocalIso(fixture.ends_at, timeZone),
+      time_zone: timeZone,
       court: fixture.court_id ? courtMap.get(fixture.court_id) || null : null,
       participants: participantMap.get(fixture.id) || [],
       latest_submission: latestSubmissionMap.get(fixture.id) || null,
@@ -3,6 +3,7 @@ import { Request, Response, Router } from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { sendGroupEmail } from '../services/email.service';
 import { ensureLeagueInviteCode, getLeague } from '../services/league.service';
+import { addMemberToSchedule } from '../services/roster-patch.service';
 import { buildLeagueInviteEmailHtml } from '../templates/email';
 import { getHostName } from '../utils/profile';
 import { env } from '../config/env';
@@ -319,7 +320,17 @@ router.post('/:id/join', requireAuth, async (req: Request, res: Response) => {
         .ilike('email', userEmail);
     }
 
-    res.json({ success: true, alreadyMember: false });
+    // Give a member joining mid-season fixtures in the remaining weeks
+    let scheduledFixtures = 0;
+    if (!insertError) {
+      try {
+        scheduledFixtures = (await addMemberToSchedule(leagueId, userId)).addedFixtures;
+      } catch (patchError) {
+        console.error('Join schedule patch error:', patchError);
+      }
+    }
+
+    res.json({ success: true, alreadyMember: false, scheduledFixtures });
   } catch (error) {
     console.error('League join error:', error);
     res.status(500).json({ error: 'Failed to join league' });
@@ -0,0 +1,302 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
+import { getHostName } from '../utils/profile';
+import { supabaseAdmin } from '../utils/supabase';
+import { getLeague } from '../services/league.service';
+import { notifyUsers } from '../services/notification.service';
+import { getChallengeError } from '../services/ladder.service';
+import {
+  expireLadderChallenges,
+  forfeitLadderChallenge,
+  LadderError,
+  loadLadder,
+} from '../services/ladder-read.service';
+
+const router: Router = Router();
+
+/**
+ * GET /api/leagues/:id/ladder
+ * Ladder positions, each player's challenge record and open challenges.
+ */
+router.get('/:id/ladder', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const { userId } = req as AuthenticatedRequest;
+
+    if (!leagueId) {
+      res.status(400).json({ error: 'league id is required' });
+      return;
+    }
+
+    const role = await getLeagueRole(leagueId, userId);
+    if (!role) {
+      res.status(403).json({ error: 'You must be a league member to view the ladder' });
+      return;
+    }
+
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
+    if (league.league_type !== 'ladder') {
+      res.status(400).json({ error: 'League is not a ladder' });
+      return;
+    }
+
+    const { order: _order, ...payload } = await loadLadder(league);
+    res.json(payload);
+  } catch (error) {
+    if (error instanceof LadderError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    console.error('Ladder fetch error:', error);
+    res.status(500).json({ error: 'Failed to load ladder' });
+  }
+});
+
+/**
+ * POST /api/leagues/:id/ladder/challenges
+ * Challenges a player up to `ladder.challenge_range` places above. Creates the
+ * fixture; the defender has `ladder.acceptance_hours` to accept or forfeits.
+ */
+router.post('/:id/ladder/challenges', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const { userId } = req as AuthenticatedRequest;
+    const defenderId = typeof req.body?.defenderId === 'string' ? req.body.defenderId : '';
+
+    if (!leagueId) {
+      res.status(400).json({ error: 'league id is required' });
+      return;
+    }
+    if (!defenderId) {
+      res.status(400).json({ error: 'defenderId is required' });
+      return;
+    }
+
+    const role = await getLeagueRole(leagueId, userId);
+    if (!role) {
+      res.status(403).json({ error: 'You must be a league member to issue challenges' });
+      return;
+    }
+
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
+    if (league.league_type !== 'ladder') {
+      res.status(400).json({ error: 'Challenges are only available in ladder leagues' });
+      return;
+    }
+
+    await expireLadderChallenges(leagueId);
+    const ladder = await loadLadder(league);
+    const busy = ladder.openChallenges.find((challenge) =>
+      [challenge.challengerId, challenge.defenderId].some(
+        (playerId) => playerId === userId || playerId === defenderId
+      )
+    );
+    if (busy) {
+      res.status(409).json({ error: 'You or your opponent already have an open challenge' });
+      return;
+    }
+
+    const challengeError = getChallengeError(
+      ladder.order,
+      userId,
+      defenderId,
+      ladder.challengeRange
+    );
+    if (challengeError) {
+      res.status(400).json({ error: challengeError });
+      return;
+    }
+
+    const acceptBy = new Date(Date.now() + ladder.acceptanceHours * 60 * 60 * 1000).toISOString();
+    const { data: fixture, error: fixtureError } = await supabaseAdmin
+      .from('league_fixtures')
+      .insert({
+        league_id: leagueId,
+        week_number: null,
+        starts_at: null,
+        ends_at: null,
+        fixture_type: 'league_match',
+        status: 'scheduled',
+        court_id: league.default_court_id || null,
+        metadata: {
+          sport: league.sport_type,
+          scoring_format: league.scoring_format,
+          ladder_challenge: true,
+          challenger_id: userId,
+          defender_id: defenderId,
+          challenger_position: ladder.order.indexOf(userId) + 1,
+          defender_position: ladder.order.indexOf(defenderId) + 1,
+          challenge_status: 'pending',
+          accept_by: acceptBy,
+        },
+        season_id: league.current_season_id || null,
+        created_by: userId,
+      })
+      .select('id')
+      .single();
+
+    if (fixtureError || !fixture) {
+      res.status(500).json({ error: fixtureError?.message || 'Failed to create challenge' });
+      return;
+    }
+
+    const { error: participantError } = await supabaseAdmin
+      .from('league_fixture_participants')
+      .insert([
+        { fixture_id: fixture.id, user_id: userId, side: 'A', role: 'player' },
+        { fixture_id: fixture.id, user_id: defenderId, side: 'B', role: 'player' },
+      ]);
+
+    if (participantError) {
+      await supabaseAdmin.from('league_fixtures').delete().eq('id', fixture.id);
+      res.status(500).json({ error: participantError.message });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      challenge: {
+        fixtureId: fixture.id,
+        challengerId: userId,
+        defenderId,
+        challengeStatus: 'pending',
+        acceptBy,
+      },
+    });
+
+    // Notify the defender (non-blocking)
+    getHostName(userId).then((challengerName) => {
+      notifyUsers([defenderId], {
+        title: 'Ladder Challenge',
+        body: `${challengerName} challenged you. Accept by ${acceptBy.slice(0, 10)} or forfeit your place.`,
+        data: { type: 'ladder_challenge', leagueId, fixtureId: fixture.id },
+      }).catch(() => {});
+    }).catch(() => {});
+  } catch (error) {
+    if (error instanceof LadderError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    console.error('Ladder challenge error:', error);
+    res.status(500).json({ error: 'Failed to create challenge' });
+  }
+});
+
+/**
+ * POST /api/leagues/:id/ladder/challenges/:fixtureId/respond
+ * Defender (or owner/admin) accepts or declines a pending challenge. Declining
+ * is a forfeit: the challenger takes the defender's place.
+ */
+router.post(
+  '/:id/ladder/challenges/:fixtureId/respond',
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const fixtureId = Array.isArray(req.params.fixtureId)
+        ? req.params.fixtureId[0]
+        : req.params.fixtureId;
+      const { userId } = req as AuthenticatedRequest;
+      const decision = req.body?.decision;
+
+      if (!leagueId || !fixtureId) {
+        res.status(400).json({ error: 'league id and fixture id are required' });
+        return;
+      }
+      if (decision !== 'accept' && decision !== 'decline') {
+        res.status(400).json({ error: 'decision must be accept or decline' });
+        return;
+      }
+
+      const role = await getLeagueRole(leagueId, userId);
+      if (!role) {
+        res.status(403).json({ error: 'You must be a league member to respond to challenges' });
+        return;
+      }
+
+      const league = await getLeague(leagueId);
+      if (!league) {
+        res.status(404).json({ error: 'League not found' });
+        return;
+      }
+
+      // Record forfeits for challenges whose deadline already passed
+      await expireLadderChallenges(leagueId);
+      const ladder = await loadLadder(league);
+      const challenge = ladder.openChallenges.find((entry) => entry.fixtureId === fixtureId);
+      if (!challenge || challenge.challengeStatus !== 'pending') {
+        res.status(400).json({ error: 'Challenge is not awaiting a response' });
+        return;
+      }
+      if (challenge.defenderId !== userId && !isLeagueAdminRole(role)) {
+        res.status(403).json({ error: 'Only the challenged player can respond' });
+        return;
+      }
+
+      const { data: fixture, error: fixtureError } = await supabaseAdmin
+        .from('league_fixtures')
+        .select('metadata')
+        .eq('id', fixtureId)
+        .single();
+
+      if (fixtureError || !fixture) {
+        res.status(404).json({ error: 'Challenge not found' });
+        return;
+      }
+
+      const metadata = (fixture.metadata as Record<string, unknown> | null) || {};
+      if (decision === 'decline') {
+        await forfeitLadderChallenge(fixtureId, metadata, 'declined');
+      } else {
+        const { error: updateError } = await supabaseAdmin
+          .from('league_fixtures')
+          .update({
+            metadata: {
+              ...metadata,
+              challenge_status: 'accepted',
+              accepted_at: new Date().toISOString(),
+            },
+          })
+          .eq('id', fixtureId);
+
+        if (updateError) {
+          res.status(500).json({ error: updateError.message });
+          return;
+        }
+      }
+
+      res.json({
+        success: true,
+        challengeStatus: decision === 'accept' ? 'accepted' : 'declined',
+      });
+
+      // Notify the challenger (non-blocking)
+      notifyUsers([challenge.challengerId], {
+        title: decision === 'accept' ? 'Challenge Accepted' : 'Challenge Declined',
+        body:
+          decision === 'accept'
+            ? 'Your ladder challenge was accepted. Play the match and submit the result.'
+            : 'Your ladder challenge was declined, so you take their place on the ladder.',
+        data: { type: 'ladder_challenge_response', leagueId, fixtureId },
+      }).catch(() => {});
+    } catch (error) {
+      if (error instanceof LadderError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('Ladder challenge response error:', error);
+      res.status(500).json({ error: 'Failed to respond to challenge' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
+import { supabaseAdmin } from '../utils/supabase';
+import { removeMemberFromSchedule } from '../services/roster-patch.service';
+
+const router: Router = Router();
+
+/**
+ * DELETE /api/leagues/:id/members/:userId
+ * Removes a member (owner/admin, or the member leaving) and moves or cancels
+ * their unplayed fixtures.
+ */
+router.delete('/:id/members/:userId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const memberId = Array.isArray(req.params.userId) ? req.params.userId[0] : req.params.userId;
+    const { userId } = req as AuthenticatedRequest;
+
+    if (!leagueId || !memberId) {
+      res.status(400).json({ error: 'league id and user id are required' });
+      return;
+    }
+
+    const role = await getLeagueRole(leagueId, userId);
+    if (memberId !== userId && !isLeagueAdminRole(role)) {
+      res.status(403).json({ error: 'Only league owner/admin can remove other members' });
+      return;
+    }
+
+    const memberRole = await getLeagueRole(leagueId, memberId);
+    if (!memberRole) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+    if (memberRole === 'owner') {
+      res.status(400).json({ error: 'The league owner cannot be removed' });
+      return;
+    }
+
+    // Hand the fixtures over first so a failed patch leaves the member in place
+    const { movedFixtures, cancelledFixtures } = await removeMemberFromSchedule(
+      leagueId,
+      memberId
+    );
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('league_members')
+      .delete()
+      .eq('league_id', leagueId)
+      .eq('user_id', memberId);
+
+    if (deleteError) {
+      res.status(500).json({ error: deleteError.message });
+      return;
+    }
+
+    res.json({ success: true, movedFixtures, cancelledFixtures });
+  } catch (error) {
+    console.error('League member removal error:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+export default router;
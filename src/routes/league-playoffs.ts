@@ -3,21 +3,141 @@ import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
 import { getLeague } from '../services/league.service';
 import { supabaseAdmin } from '../utils/supabase';
+import { toRulesObject } from '../utils/rules';
+import {
+  getConfiguredFixedPairs,
+  isAssignedDoublesLeague,
+} from '../services/league-rules.service';
 import {
   loadLeagueStandings,
   LeagueStandingsLoadError,
 } from '../services/league-standings-read.service';
 import {
+  expandTeamSides,
+  generateDoubleEliminationSchedule,
   generateSingleEliminationSchedule,
   getTotalRounds,
 } from '../services/tournament-schedule.service';
+import {
+  createTournamentBracket,
+  TournamentBracketError,
+} from '../services/tournament-bracket.service';
+import {
+  buildBracketTree,
+  type BracketFixtureRow,
+  type BracketPlayer,
+} from '../services/bracket-tree.service';
 
 const router: Router = Router();
 
+/**
+ * GET /api/leagues/:id/playoffs
+ * Returns the league's playoff bracket as a tree: each node is a fixture with its seeds,
+ * players, result and TBD slots, nesting the fixtures whose winners feed it.
+ * Query: { season_id? } — defaults to the current season
+ */
+router.get('/:id/playoffs', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const { userId } = req as AuthenticatedRequest;
+    const seasonId = typeof req.query.season_id === 'string' ? req.query.season_id : null;
+
+    if (!leagueId) {
+      res.status(400).json({ error: 'league id is required' });
+      return;
+    }
+
+    const role = await getLeagueRole(leagueId, userId);
+    if (!role) {
+      res.status(403).json({ error: 'You must be a league member to view playoffs' });
+      return;
+    }
+
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
+
+    // Only playoff brackets; tournament brackets and pool knockouts have their own fixtures
+    let fixtureQuery = supabaseAdmin
+      .from('league_fixtures')
+      .select('id, status, starts_at, metadata')
+      .eq('league_id', leagueId)
+      .eq('fixture_type', 'tournament_match')
+      .eq('metadata->>playoff', 'true')
+      .neq('status', 'cancelled');
+
+    const playoffSeasonId = seasonId ?? league.current_season_id;
+    if (playoffSeasonId) {
+      fixtureQuery = fixtureQuery.eq('season_id', playoffSeasonId);
+    }
+
+    const { data: fixtures, error: fixturesError } = await fixtureQuery;
+    if (fixturesError) {
+      res.status(500).json({ error: fixturesError.message });
+      return;
+    }
+
+    const fixtureIds = (fixtures || []).map((fixture) => fixture.id);
+    if (fixtureIds.length === 0) {
+      res.json({ bracketType: null, playoff: false, roots: [], rounds: [] });
+      return;
+    }
+
+    const { data: participants, error: participantsError } = await supabaseAdmin
+      .from('league_fixture_participants')
+      .select('fixture_id, user_id, side')
+      .in('fixture_id', fixtureIds);
+
+    if (participantsError) {
+      res.status(500).json({ error: participantsError.message });
+      return;
+    }
+
+    const userIds = [...new Set((participants || []).map((participant) => participant.user_id))];
+    const { data: profiles } = userIds.length
+      ? await supabaseAdmin.from('profiles').select('id, name, avatar_url').in('id', userIds)
+      : { data: [] as Array<{ id: string; name: string | null; avatar_url: string | null }> };
+    const players = new Map<string, BracketPlayer>(
+      (profiles || []).map((profile) => [
+        profile.id,
+        { user_id: profile.id, name: profile.name, avatar_url: profile.avatar_url },
+      ])
+    );
+
+    const rows: BracketFixtureRow[] = (fixtures || []).map((fixture) => ({
+      id: fixture.id,
+      status: fixture.status,
+      starts_at: fixture.starts_at,
+      metadata: (fixture.metadata as Record<string, unknown> | null) || null,
+      participants: (participants || []).filter(
+        (participant) => participant.fixture_id === fixture.id
+      ),
+    }));
+    const bracketType = rows
+      .map((row) => row.metadata?.bracket_type)
+      .find((value): value is string => typeof value === 'string');
+
+    res.json({
+      bracketType: bracketType ?? null,
+      playoff: rows.some((row) => row.metadata?.playoff === true),
+      ...buildBracketTree(rows, players),
+    });
+  } catch (error) {
+    console.error('Playoffs fetch error:', error);
+    res.status(500).json({ error: 'Failed to load playoffs' });
+  }
+});
+
 /**
  * POST /api/leagues/:id/playoffs/generate
- * Generates a single-elimination playoff bracket from the current standings.
- * Body: { top_n?: number } — how many players from standings to seed (default: 8)
+ * Generates a playoff bracket from the current standings. Doubles leagues with fixed pairs
+ * and team_vs_team leagues seed whole teams from the team standings instead of players.
+ * Body: { top_n?: number } — how many players/teams from standings to seed (default: 8)
+ *       { bracket_type?: 'single_elimination' | 'double_elimination', grand_final_reset?: boolean }
+ *       { third_place?: boolean, consolation?: boolean } — single elimination only: a third-place
+ *       match for the semi-final losers and a plate bracket for first-round losers
  */
 router.post('/:id/playoffs/generate', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -35,20 +155,44 @@ router.post('/:id/playoffs/generate', requireAuth, async (req: Request, res: Res
       return;
     }
 
+    const bracketType = req.body?.bracket_type ?? 'single_elimination';
+    if (bracketType !== 'single_elimination' && bracketType !== 'double_elimination') {
+      res.status(400).json({
+        error: 'bracket_type must be single_elimination or double_elimination',
+      });
+      return;
+    }
+
+    const thirdPlace = req.body?.third_place === true;
+    const consolation = req.body?.consolation === true;
+    if ((thirdPlace || consolation) && bracketType !== 'single_elimination') {
+      res.status(400).json({
+        error: 'third_place and consolation are only available for single_elimination',
+      });
+      return;
+    }
+
     const league = await getLeague(leagueId);
     if (!league) {
       res.status(404).json({ error: 'League not found' });
       return;
     }
 
-    // Check that no playoff fixtures already exist
-    const { count: existingPlayoffs } = await supabaseAdmin
+    // Check that no playoff fixtures already exist for this season
+    let existingQuery = supabaseAdmin
       .from('league_fixtures')
       .select('id', { count: 'exact', head: true })
       .eq('league_id', leagueId)
       .eq('fixture_type', 'tournament_match')
+      .eq('metadata->>playoff', 'true')
       .neq('status', 'cancelled');
 
+    if (league.current_season_id) {
+      existingQuery = existingQuery.eq('season_id', league.current_season_id);
+    }
+
+    const { count: existingPlayoffs } = await existingQuery;
+
     if ((existingPlayoffs || 0) > 0) {
       res.status(409).json({
         error: 'Playoff bracket already exists. Cancel existing playoff fixtures first.',
@@ -73,26 +217,76 @@ router.post('/:id/playoffs/generate', requireAuth, async (req: Request, res: Res
       return;
     }
 
-    const standings = standingsPayload.standings;
-    if (standings.length < 2) {
-      res.status(400).json({ error: 'Need at least 2 players in standings to generate playoffs' });
+    // Each entrant is one player, or a whole team keyed by its sorted player ids
+    const rules = toRulesObject(league.rules_jsonb);
+    const isTeamPlayoff =
+      league.scoring_format === 'team_vs_team' || isAssignedDoublesLeague(league, rules);
+    const entrants = isTeamPlayoff
+      ? [...standingsPayload.teamStandings]
+          .sort((a, b) => a.rank - b.rank)
+          .map((team) => ({
+            key: team.team_key,
+            playerIds: team.player_ids,
+            names: team.player_names,
+          }))
+      : [...standingsPayload.standings]
+          .sort((a, b) => a.rank - b.rank)
+          .map((standing) => ({
+            key: standing.user_id,
+            playerIds: [standing.user_id],
+            names: [standing.name],
+          }));
+
+    // Fixed pairs that have not played yet still get a place after the ranked teams
+    if (isTeamPlayoff && league.scoring_format === 'doubles') {
+      const memberIds = new Set(standingsPayload.standings.map((standing) => standing.user_id));
+      const nameById = new Map(
+        standingsPayload.standings.map((standing) => [standing.user_id, standing.name])
+      );
+      for (const pair of getConfiguredFixedPairs(rules, memberIds)) {
+        const playerIds = [...pair].sort();
+        const key = playerIds.join('+');
+        if (entrants.some((entrant) => entrant.key === key)) continue;
+        entrants.push({
+          key,
+          playerIds,
+          names: playerIds.map((playerId) => nameById.get(playerId) ?? null),
+        });
+      }
+    }
+
+    if (entrants.length < 2) {
+      res.status(400).json({
+        error: isTeamPlayoff
+          ? 'Need at least 2 teams in standings to generate playoffs'
+          : 'Need at least 2 players in standings to generate playoffs',
+      });
       return;
     }
 
     // Determine top N
     const topN = typeof req.body?.top_n === 'number' && req.body.top_n >= 2
-      ? Math.min(req.body.top_n, standings.length)
-      : Math.min(8, standings.length);
-
-    // Sort by rank and take top N
-    const seeded = [...standings]
-      .sort((a, b) => a.rank - b.rank)
-      .slice(0, topN);
+      ? Math.min(req.body.top_n, entrants.length)
+      : Math.min(8, entrants.length);
 
-    const seededIds = seeded.map((s) => s.user_id);
+    // Entrants are already in rank order, so rank 1 = seed 1, etc.
+    const seeded = entrants.slice(0, topN);
+    const seededIds = seeded.map((entrant) => entrant.key);
 
-    // Generate bracket with seeded order (rank 1 = seed 1, etc.)
-    const bracketFixtures = generateSingleEliminationSchedule(seededIds, 'manual', seededIds);
+    const drawnFixtures = bracketType === 'double_elimination'
+      ? generateDoubleEliminationSchedule(seededIds, 'manual', seededIds, {
+          grandFinalReset: req.body?.grand_final_reset !== false,
+        })
+      : generateSingleEliminationSchedule(seededIds, 'manual', seededIds, Math.random, {
+          thirdPlace,
+          consolation,
+        });
+    const bracketFixtures = isTeamPlayoff
+      ? expandTeamSides(
+          drawnFixtures,
+          new Map(seeded.map((entrant) => [entrant.key, entrant.playerIds]))
+        )
+      : drawnFixtures;
 
     if (bracketFixtures.length === 0) {
       res.status(400).json({ error: 'Could not generate playoff bracket' });
@@ -102,160 +296,52 @@ router.post('/:id/playoffs/generate', requireAuth, async (req: Request, res: Res
     const totalRounds = getTotalRounds(seededIds.length);
     const courtId = league.default_court_id || null;
 
-    // Create fixtures
-    const createdFixtureIds = new Map<number, string>();
-    let createdFixtures = 0;
-    let createdParticipants = 0;
-
-    for (const entry of bracketFixtures) {
-      const roundLabel = entry.round === totalRounds ? 'Final' :
-        entry.round === totalRounds - 1 ? 'Semi-Final' : `Playoff Round ${entry.round}`;
-
-      const { data: fixture, error: fixtureError } = await supabaseAdmin
-        .from('league_fixtures')
-        .insert({
-          league_id: leagueId,
-          week_number: null,
-          fixture_type: 'tournament_match',
-          status: entry.isBye ? 'finalized' :
-            (entry.sideA.length > 0 && entry.sideB.length > 0) ? 'scheduled' : 'pending_participants',
-          court_id: courtId,
-          metadata: {
-            generated: true,
-            sport: league.sport_type,
-            scoring_format: league.scoring_format,
-            tournament: true,
-            playoff: true,
-            round: entry.round,
-            match_number: entry.matchNumber,
-            round_label: roundLabel,
-            total_rounds: totalRounds,
-            is_bye: entry.isBye,
-            ...(entry.isBye && (entry.sideA.length > 0 || entry.sideB.length > 0)
-              ? { final_result: { winner: entry.sideA.length > 0 ? 'A' : 'B', bye: true } }
-              : {}),
-          },
-          created_by: userId,
-        })
-        .select('id')
-        .single();
-
-      if (fixtureError || !fixture) {
-        res.status(500).json({ error: fixtureError?.message || 'Failed to create playoff fixture' });
-        return;
-      }
-
-      createdFixtureIds.set(entry.matchNumber, fixture.id);
-      createdFixtures++;
-
-      const participantRows = [
-        ...entry.sideA.map((playerId) => ({
-          fixture_id: fixture.id,
-          user_id: playerId,
-          side: 'A',
-          role: 'player',
-        })),
-        ...entry.sideB.map((playerId) => ({
-          fixture_id: fixture.id,
-          user_id: playerId,
-          side: 'B',
-          role: 'player',
-        })),
-      ];
-
-      if (participantRows.length > 0) {
-        const { error: participantError } = await supabaseAdmin
-          .from('league_fixture_participants')
-          .insert(participantRows);
-
-        if (participantError) {
-          res.status(500).json({ error: participantError.message });
-          return;
-        }
-        createdParticipants += participantRows.length;
-      }
-    }
-
-    // Link fixtures with next_fixture_id and handle bye advances
-    for (const entry of bracketFixtures) {
-      if (entry.round >= totalRounds) continue;
-
-      const matchesBeforeThisRound = bracketFixtures
-        .filter((f) => f.round < entry.round)
-        .length;
-      const indexInRound = entry.matchNumber - matchesBeforeThisRound - 1;
-      const nextRoundMatchIndex = Math.floor(indexInRound / 2);
-      const bracketSlot = indexInRound % 2 === 0 ? 'A' : 'B';
-
-      const nextRoundFixtures = bracketFixtures.filter((f) => f.round === entry.round + 1);
-      if (nextRoundMatchIndex >= nextRoundFixtures.length) continue;
-      const nextMatchNumber = nextRoundFixtures[nextRoundMatchIndex].matchNumber;
-      const nextFixtureId = createdFixtureIds.get(nextMatchNumber);
-
-      if (!nextFixtureId) continue;
-
-      const currentFixtureId = createdFixtureIds.get(entry.matchNumber);
-      if (!currentFixtureId) continue;
-
-      const { data: currentFixture } = await supabaseAdmin
-        .from('league_fixtures')
-        .select('metadata')
-        .eq('id', currentFixtureId)
-        .single();
-
-      const existingMeta = (currentFixture?.metadata as Record<string, unknown>) || {};
-      await supabaseAdmin
-        .from('league_fixtures')
-        .update({
-          metadata: {
-            ...existingMeta,
-            next_fixture_id: nextFixtureId,
-            bracket_slot: bracketSlot,
-          },
-        })
-        .eq('id', currentFixtureId);
-
-      if (entry.isBye) {
-        const byeWinner = entry.sideA.length > 0 ? entry.sideA : entry.sideB;
-        if (byeWinner.length > 0) {
-          const advanceRows = byeWinner.map((playerId) => ({
-            fixture_id: nextFixtureId,
-            user_id: playerId,
-            side: bracketSlot,
-            role: 'player',
-          }));
-
-          await supabaseAdmin
-            .from('league_fixture_participants')
-            .insert(advanceRows);
-          createdParticipants += advanceRows.length;
-
-          const { data: nextParts } = await supabaseAdmin
-            .from('league_fixture_participants')
-            .select('side')
-            .eq('fixture_id', nextFixtureId);
-
-          const sides = new Set((nextParts || []).map((p) => p.side));
-          if (sides.has('A') && sides.has('B')) {
-            await supabaseAdmin
-              .from('league_fixtures')
-              .update({ status: 'scheduled' })
-              .eq('id', nextFixtureId)
-              .eq('status', 'pending_participants');
-          }
-        }
-      }
-    }
+    const { createdFixtures, createdParticipants } = await createTournamentBracket({
+      leagueId,
+      userId,
+      seasonId: league.current_season_id || null,
+      courtId,
+      fixtures: bracketFixtures,
+      metadata: {
+        generated: true,
+        sport: league.sport_type,
+        scoring_format: league.scoring_format,
+        playoff: true,
+        bracket_type: bracketType,
+        third_place: thirdPlace,
+        consolation,
+        ...(isTeamPlayoff ? { team_playoff: true } : {}),
+      },
+      roundPrefix: 'Playoff Round',
+      weekNumber: () => null,
+    });
 
     res.json({
       success: true,
       playoffPlayers: topN,
+      bracketType,
+      thirdPlace,
+      consolation,
       totalRounds,
       createdFixtures,
       createdParticipants,
-      seeding: seeded.map((s, i) => ({ seed: i + 1, user_id: s.user_id, name: s.name })),
+      teamPlayoff: isTeamPlayoff,
+      seeding: seeded.map((entrant, i) =>
+        isTeamPlayoff
+          ? {
+              seed: i + 1,
+              team_key: entrant.key,
+              player_ids: entrant.playerIds,
+              player_names: entrant.names,
+            }
+          : { seed: i + 1, user_id: entrant.key, name: entrant.names[0] }
+      ),
     });
   } catch (error) {
+    if (error instanceof TournamentBracketError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
     console.error('Playoff generation error:', error);
     res.status(500).json({ error: 'Failed to generate playoffs' });
   }
@@ -1,23 +1,152 @@
 import { Request, Response, Router } from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
-import { getLeague } from '../services/league.service';
+import { getLeague, type LeagueRow } from '../services/league.service';
 import { supabaseAdmin } from '../utils/supabase';
-import { getNestedNumber, getNestedString, toRulesObject } from '../utils/rules';
+import { getNestedString, toRulesObject } from '../utils/rules';
 import {
-  generateSinglesSchedule,
-  generateDoublesAssignedSchedule,
-  generateDoublesRandomSchedule,
+  diffScheduledFixtures,
+  generateSwissRound,
+  getPairingKey,
+  type ScheduledFixture,
 } from '../services/fixture-schedule.service';
+import { TournamentBracketError } from '../services/tournament-bracket.service';
 import {
-  generateSingleEliminationSchedule,
-  getTotalRounds,
-} from '../services/tournament-schedule.service';
-import { getConfiguredFixedPairs } from '../services/league-rules.service';
-import { weekEndIso, weekStartIso } from '../utils/league-dates';
+  buildSchedulePlan,
+  getScheduleCalendar,
+  getSchedulePreviewWeeks,
+  parseScheduleRequest,
+  parseSeed,
+  placeOnMatchNights,
+  persistSchedulePlan,
+  SchedulePlanError,
+  type ScheduleRequest,
+} from '../services/league-schedule.service';
+import { rollbackCreatedRows, type CreatedRows } from '../services/fixture-rollback.service';
+import { weekEndIso } from '../utils/league-dates';
+import {
+  loadLeagueStandings,
+  LeagueStandingsLoadError,
+} from '../services/league-standings-read.service';
 
 const router: Router = Router();
 
+/**
+ * Regenerate mode of schedule/generate: keeps finalized and in-progress
+ * fixtures, cancels untouched `scheduled` ones and refills the weeks after the
+ * last kept fixture with every pairing still owed. Without a requested seed
+ * the draw reuses the seed the schedule was generated with.
+ */
+async function regenerateSchedule(
+  res: Response,
+  league: LeagueRow,
+  request: ScheduleRequest,
+  userId: string,
+  requestedSeed: string | null
+): Promise<void> {
+  // Only this season's generated matches are kept or replaced; playoff
+  // brackets and earlier seasons are left alone
+  let existingQuery = supabaseAdmin
+    .from('league_fixtures')
+    .select('id, week_number, status, metadata')
+    .eq('league_id', league.id)
+    .eq('fixture_type', 'league_match')
+    .neq('status', 'cancelled');
+
+  if (league.current_season_id) {
+    existingQuery = existingQuery.eq('season_id', league.current_season_id);
+  }
+
+  const { data: existingRows, error: existingError } = await existingQuery;
+
+  if (existingError) {
+    res.status(500).json({ error: 'Failed to load existing fixtures' });
+    return;
+  }
+
+  const existing = existingRows || [];
+  const existingIds = existing.map((fixture) => fixture.id);
+  const { data: participantRows, error: participantError } = existingIds.length
+    ? await supabaseAdmin
+        .from('league_fixture_participants')
+        .select('fixture_id, user_id, side')
+        .in('fixture_id', existingIds)
+    : { data: [] as Array<{ fixture_id: string; user_id: string; side: string }>, error: null };
+
+  if (participantError) {
+    res.status(500).json({ error: 'Failed to load fixture participants' });
+    return;
+  }
+
+  const toScheduled = (fixture: { id: string; week_number: number | null }): ScheduledFixture => {
+    const participants = (participantRows || []).filter((row) => row.fixture_id === fixture.id);
+    return {
+      weekNumber: fixture.week_number ?? 0,
+      sideA: participants.filter((row) => row.side === 'A').map((row) => row.user_id),
+      sideB: participants.filter((row) => row.side === 'B').map((row) => row.user_id),
+    };
+  };
+
+  const kept = existing.filter((fixture) => fixture.status !== 'scheduled');
+  const replaceable = existing.filter((fixture) => fixture.status === 'scheduled');
+  const fromWeek = Math.max(0, ...kept.map((fixture) => fixture.week_number ?? 0)) + 1;
+
+  const storedSeed = existing
+    .map((fixture) => parseSeed((fixture.metadata as Record<string, unknown> | null)?.seed))
+    .find((seed) => seed !== null);
+
+  const plan = await buildSchedulePlan(league, {
+    ...request,
+    seed: requestedSeed ?? storedSeed ?? request.seed,
+    preserve: { played: kept.map(toScheduled), fromWeek },
+  });
+
+  if (replaceable.length > 0) {
+    const { error: cancelError } = await supabaseAdmin
+      .from('league_fixtures')
+      .update({ status: 'cancelled' })
+      .in('id', replaceable.map((fixture) => fixture.id))
+      .eq('status', 'scheduled');
+
+    if (cancelError) {
+      res.status(500).json({ error: cancelError.message });
+      return;
+    }
+  }
+
+  let created: Awaited<ReturnType<typeof persistSchedulePlan>>;
+  try {
+    created = await persistSchedulePlan(plan, {
+      leagueId: league.id,
+      userId,
+      seasonId: league.current_season_id || null,
+      courtId: request.courtId,
+    });
+  } catch (persistError) {
+    // The new fixtures were rolled back; put the ones they were replacing back too
+    if (replaceable.length > 0) {
+      await supabaseAdmin
+        .from('league_fixtures')
+        .update({ status: 'scheduled' })
+        .in('id', replaceable.map((fixture) => fixture.id))
+        .eq('status', 'cancelled');
+    }
+    throw persistError;
+  }
+
+  res.json({
+    success: true,
+    mode: 'regenerate',
+    ...plan.summary,
+    fromWeek,
+    keptFixtures: kept.length,
+    cancelledFixtures: replaceable.length,
+    createdFixtures: created.createdFixtures,
+    createdParticipants: created.createdParticipants,
+    diff: diffScheduledFixtures(replaceable.map(toScheduled), plan.fixtures),
+  });
+}
+
 router.post('/:id/schedule/generate', requireAuth, async (req: Request, res: Response) => {
   try {
     const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
@@ -40,16 +169,13 @@ router.post('/:id/schedule/generate', requireAuth, async (req: Request, res: Res
       return;
     }
 
-    const rules = toRulesObject(league.rules_jsonb);
-    const ruleWeeks = getNestedNumber(rules, ['schedule', 'season_weeks']);
-    const seasonWeeks = ruleWeeks || league.season_weeks || 10;
-    const startDate = getNestedString(rules, ['schedule', 'starts_on']) || league.start_date;
-    const startTime = getNestedString(rules, ['schedule', 'starts_at_local']);
-    const courtId =
-      typeof req.body?.court_id === 'string' && req.body.court_id
-        ? req.body.court_id
-        : league.default_court_id || null;
-    const seasonId = league.current_season_id || null;
+    // Settings overrides are for previews only; generation follows the saved rules
+    const request = { ...parseScheduleRequest(req.body, league), rulesOverride: undefined };
+
+    if (req.body?.mode === 'regenerate') {
+      await regenerateSchedule(res, league, request, userId, parseSeed(req.body?.seed));
+      return;
+    }
 
     const { count: existingFixtures } = await supabaseAdmin
       .from('league_fixtures')
@@ -59,359 +185,280 @@ router.post('/:id/schedule/generate', requireAuth, async (req: Request, res: Res
 
     if ((existingFixtures || 0) > 0) {
       res.status(409).json({
-        error: 'Schedule already exists. Clear existing fixtures before generating again.',
+        error:
+          'Schedule already exists. Clear existing fixtures or use mode "regenerate" to keep played fixtures.',
       });
       return;
     }
 
-    const { data: members, error: membersError } = await supabaseAdmin
-      .from('league_members')
-      .select('user_id')
-      .eq('league_id', leagueId);
+    const plan = await buildSchedulePlan(league, request);
+    const created = await persistSchedulePlan(plan, {
+      leagueId,
+      userId,
+      seasonId: league.current_season_id || null,
+      courtId: request.courtId,
+    });
 
-    if (membersError) {
-      res.status(500).json({ error: 'Failed to load league members' });
+    res.json({
+      success: true,
+      ...plan.summary,
+      createdFixtures: created.createdFixtures,
+      ...(plan.sessions.length > 0
+        ? { createdSessions: created.createdSessions }
+        : { createdParticipants: created.createdParticipants }),
+    });
+  } catch (error) {
+    if (error instanceof SchedulePlanError || error instanceof TournamentBracketError) {
+      res.status(error.statusCode).json({ error: error.message });
       return;
     }
+    console.error('Schedule generation error:', error);
+    res.status(500).json({ error: 'Failed to generate schedule' });
+  }
+});
+
+/**
+ * POST /api/leagues/:id/schedule/preview
+ * Dry run of schedule/generate: returns the proposed weeks, pairings, dates,
+ * byes and fairness stats without writing fixtures or running sessions.
+ * Body takes the same options as generate, plus `rules` to try rule sections
+ * (e.g. `{ schedule: { format: 'double_rr' } }`) before saving them.
+ */
+router.post('/:id/schedule/preview', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const { userId } = req as AuthenticatedRequest;
 
-    const memberIds = (members || []).map((m) => m.user_id).filter(Boolean);
-    if (memberIds.length === 0) {
-      res.status(400).json({ error: 'League has no members' });
+    if (!leagueId) {
+      res.status(400).json({ error: 'league id is required' });
       return;
     }
 
-    if (league.sport_type === 'running') {
-      const sessionType =
-        getNestedString(rules, ['sessions', 'default_session_type']) || 'time_trial';
-      const comparisonMode =
-        getNestedString(rules, ['sessions', 'comparison_mode']) || 'personal_progress';
-
-      let createdFixtures = 0;
-      let createdSessions = 0;
-
-      for (let week = 1; week <= seasonWeeks; week++) {
-        const startsAt = weekStartIso(startDate, week, startTime);
-        const endsAt = startsAt ? new Date(startsAt) : null;
-        if (endsAt) endsAt.setUTCDate(endsAt.getUTCDate() + 6);
-
-        const { data: fixture, error: fixtureError } = await supabaseAdmin
-          .from('league_fixtures')
-          .insert({
-            league_id: leagueId,
-            week_number: week,
-            starts_at: startsAt,
-            ends_at: weekEndIso(startsAt),
-            fixture_type: 'time_trial_session',
-            status: 'scheduled',
-            court_id: courtId,
-            metadata: {
-              generated: true,
-              sport: 'running',
-            },
-            season_id: seasonId,
-          created_by: userId,
-          })
-          .select('id')
-          .single();
-
-        if (fixtureError || !fixture) {
-          res.status(500).json({ error: fixtureError?.message || 'Failed to create fixture' });
-          return;
-        }
-        createdFixtures += 1;
-
-        const { error: runningError } = await supabaseAdmin
-          .from('running_sessions')
-          .insert({
-            league_id: leagueId,
-            week_number: week,
-            session_type: sessionType,
-            starts_at: startsAt,
-            submission_deadline: endsAt ? endsAt.toISOString() : null,
-            comparison_mode: comparisonMode,
-            status: 'scheduled',
-            season_id: seasonId,
-          created_by: userId,
-          });
+    const role = await getLeagueRole(leagueId, userId);
+    if (!isLeagueAdminRole(role)) {
+      res.status(403).json({ error: 'Only league owner/admin can preview schedule' });
+      return;
+    }
 
-        if (runningError) {
-          await supabaseAdmin.from('league_fixtures').delete().eq('id', fixture.id);
-          res.status(500).json({ error: runningError.message });
-          return;
-        }
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
 
-        createdSessions += 1;
-      }
+    const plan = await buildSchedulePlan(league, parseScheduleRequest(req.body, league));
 
-      res.json({
-        success: true,
-        sport: 'running',
-        seasonWeeks,
-        createdFixtures,
-        createdSessions,
-      });
+    res.json({
+      preview: true,
+      ...plan.summary,
+      totalFixtures: plan.bracket ? plan.bracket.fixtures.length : plan.fixtures.length,
+      timeZone: plan.timeZone,
+      weeks: getSchedulePreviewWeeks(plan),
+    });
+  } catch (error) {
+    if (error instanceof SchedulePlanError) {
+      res.status(error.statusCode).json({ error: error.message });
       return;
     }
+    console.error('Schedule preview error:', error);
+    res.status(500).json({ error: 'Failed to preview schedule' });
+  }
+});
 
-    // Tournament bracket generation
-    if (league.league_type === 'tournament') {
-      if (memberIds.length < 2) {
-        res.status(400).json({ error: 'Tournament needs at least 2 players' });
-        return;
-      }
+/**
+ * POST /api/leagues/:id/schedule/swiss/next-round
+ * Pairs the next Swiss round from live standings once every fixture of the
+ * previous round is finalized. Byes are stored as finalized walkover fixtures.
+ */
+router.post('/:id/schedule/swiss/next-round', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leagueId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const { userId } = req as AuthenticatedRequest;
 
-      const seeding = typeof req.body?.seeding === 'string' ? req.body.seeding : 'random';
-      const manualOrder = Array.isArray(req.body?.manual_order) ? req.body.manual_order : undefined;
+    if (!leagueId) {
+      res.status(400).json({ error: 'league id is required' });
+      return;
+    }
 
-      const bracketFixtures = generateSingleEliminationSchedule(
-        memberIds,
-        seeding === 'manual' ? 'manual' : 'random',
-        manualOrder
-      );
+    const role = await getLeagueRole(leagueId, userId);
+    if (!isLeagueAdminRole(role)) {
+      res.status(403).json({ error: 'Only league owner/admin can generate Swiss rounds' });
+      return;
+    }
 
-      if (bracketFixtures.length === 0) {
-        res.status(400).json({ error: 'Could not generate bracket' });
-        return;
-      }
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
 
-      const totalRounds = getTotalRounds(memberIds.length);
-
-      // Create all fixtures first, then link them with next_fixture_id
-      const createdFixtureIds: Map<number, string> = new Map(); // matchNumber -> fixtureId
-      let createdFixtures = 0;
-      let createdParticipants = 0;
-
-      for (const entry of bracketFixtures) {
-        const roundLabel = entry.round === totalRounds ? 'Final' :
-          entry.round === totalRounds - 1 ? 'Semi-Final' : `Round ${entry.round}`;
-
-        const { data: fixture, error: fixtureError } = await supabaseAdmin
-          .from('league_fixtures')
-          .insert({
-            league_id: leagueId,
-            week_number: entry.round,
-            fixture_type: 'tournament_match',
-            status: entry.isBye ? 'finalized' :
-              (entry.sideA.length > 0 && entry.sideB.length > 0) ? 'scheduled' : 'pending_participants',
-            court_id: courtId,
-            metadata: {
-              generated: true,
-              sport: league.sport_type,
-              scoring_format: league.scoring_format,
-              tournament: true,
-              round: entry.round,
-              match_number: entry.matchNumber,
-              round_label: roundLabel,
-              total_rounds: totalRounds,
-              is_bye: entry.isBye,
-            },
-            season_id: seasonId,
-          created_by: userId,
-          })
-          .select('id')
-          .single();
-
-        if (fixtureError || !fixture) {
-          res.status(500).json({ error: fixtureError?.message || 'Failed to create tournament fixture' });
-          return;
-        }
-
-        createdFixtureIds.set(entry.matchNumber, fixture.id);
-        createdFixtures++;
-
-        // Insert participants for round 1 fixtures that have players
-        const participantRows = [
-          ...entry.sideA.map((playerId) => ({
-            fixture_id: fixture.id,
-            user_id: playerId,
-            side: 'A',
-            role: 'player',
-          })),
-          ...entry.sideB.map((playerId) => ({
-            fixture_id: fixture.id,
-            user_id: playerId,
-            side: 'B',
-            role: 'player',
-          })),
-        ];
-
-        if (participantRows.length > 0) {
-          const { error: participantError } = await supabaseAdmin
-            .from('league_fixture_participants')
-            .insert(participantRows);
-
-          if (participantError) {
-            res.status(500).json({ error: participantError.message });
-            return;
-          }
-          createdParticipants += participantRows.length;
-        }
-
-        // Auto-finalize byes — the player with opponents = BYE advances
-        if (entry.isBye && (entry.sideA.length > 0 || entry.sideB.length > 0)) {
-          const byeWinner = entry.sideA.length > 0 ? 'A' : 'B';
-          await supabaseAdmin
-            .from('league_fixtures')
-            .update({
-              metadata: {
-                generated: true,
-                sport: league.sport_type,
-                scoring_format: league.scoring_format,
-                tournament: true,
-                round: entry.round,
-                match_number: entry.matchNumber,
-                round_label: roundLabel,
-                total_rounds: totalRounds,
-                is_bye: true,
-                final_result: { winner: byeWinner, bye: true },
-              },
-            })
-            .eq('id', fixture.id);
-        }
-      }
+    const rules = toRulesObject(league.rules_jsonb);
+    if (
+      league.scoring_format !== 'singles' ||
+      getNestedString(rules, ['schedule', 'format']) !== 'swiss'
+    ) {
+      res.status(400).json({ error: 'Swiss rounds require a singles league with schedule.format swiss' });
+      return;
+    }
 
-      // Now link fixtures: each match feeds into the next round
-      // Match N in round R feeds into match ceil(N/2) in round R+1
-      // Odd match numbers feed into side A, even into side B
-      const round1MatchCount = bracketFixtures.filter((f) => f.round === 1).length;
-
-      for (const entry of bracketFixtures) {
-        if (entry.round >= totalRounds) continue; // final has no next
-
-        // Calculate which match in the next round this feeds into
-        const matchesBeforeThisRound = bracketFixtures
-          .filter((f) => f.round < entry.round)
-          .length;
-        const indexInRound = entry.matchNumber - matchesBeforeThisRound - 1;
-        const nextRoundMatchIndex = Math.floor(indexInRound / 2);
-        const bracketSlot = indexInRound % 2 === 0 ? 'A' : 'B';
-
-        // Find the next round match
-        const nextRoundFixtures = bracketFixtures.filter((f) => f.round === entry.round + 1);
-        if (nextRoundMatchIndex >= nextRoundFixtures.length) continue;
-        const nextMatchNumber = nextRoundFixtures[nextRoundMatchIndex].matchNumber;
-        const nextFixtureId = createdFixtureIds.get(nextMatchNumber);
-
-        if (!nextFixtureId) continue;
-
-        const currentFixtureId = createdFixtureIds.get(entry.matchNumber);
-        if (!currentFixtureId) continue;
-
-        // Update current fixture metadata with next_fixture_id and bracket_slot
-        const { data: currentFixture } = await supabaseAdmin
-          .from('league_fixtures')
-          .select('metadata')
-          .eq('id', currentFixtureId)
-          .single();
-
-        const existingMeta = (currentFixture?.metadata as Record<string, unknown>) || {};
-        await supabaseAdmin
-          .from('league_fixtures')
-          .update({
-            metadata: {
-              ...existingMeta,
-              next_fixture_id: nextFixtureId,
-              bracket_slot: bracketSlot,
-            },
-          })
-          .eq('id', currentFixtureId);
-
-        // If this was a bye, auto-advance the winner now
-        if (entry.isBye) {
-          const byeWinner = entry.sideA.length > 0 ? entry.sideA : entry.sideB;
-          if (byeWinner.length > 0) {
-            const advanceRows = byeWinner.map((playerId) => ({
-              fixture_id: nextFixtureId,
-              user_id: playerId,
-              side: bracketSlot,
-              role: 'player',
-            }));
-
-            await supabaseAdmin
-              .from('league_fixture_participants')
-              .insert(advanceRows);
-            createdParticipants += advanceRows.length;
-
-            // Check if next fixture now has both sides
-            const { data: nextParts } = await supabaseAdmin
-              .from('league_fixture_participants')
-              .select('side')
-              .eq('fixture_id', nextFixtureId);
-
-            const sides = new Set((nextParts || []).map((p) => p.side));
-            if (sides.has('A') && sides.has('B')) {
-              await supabaseAdmin
-                .from('league_fixtures')
-                .update({ status: 'scheduled' })
-                .eq('id', nextFixtureId)
-                .eq('status', 'pending_participants');
-            }
-          }
-        }
-      }
+    const calendar = getScheduleCalendar(league, rules);
+    const { seasonWeeks } = calendar;
+    const courtId = league.default_court_id || null;
+    const seasonId = league.current_season_id || null;
+
+    // Rounds and pairings from earlier seasons do not count toward this one
+    let existingQuery = supabaseAdmin
+      .from('league_fixtures')
+      .select('id, week_number, status, metadata')
+      .eq('league_id', leagueId)
+      .eq('fixture_type', 'league_match')
+      .neq('status', 'cancelled');
+
+    if (seasonId) {
+      existingQuery = existingQuery.eq('season_id', seasonId);
+    }
+
+    const { data: existingFixtures, error: existingError } = await existingQuery;
+
+    if (existingError) {
+      res.status(500).json({ error: existingError.message });
+      return;
+    }
 
-      res.json({
-        success: true,
-        sport: league.sport_type,
-        leagueType: 'tournament',
-        totalRounds,
-        createdFixtures,
-        createdParticipants,
+    const unfinished = (existingFixtures || []).filter((fixture) => fixture.status !== 'finalized');
+    if (unfinished.length > 0) {
+      res.status(409).json({
+        error: 'All fixtures of the current round must be finalized before pairing the next round',
+        unfinishedFixtures: unfinished.length,
       });
       return;
     }
 
-    let schedule;
-    if (league.scoring_format === 'singles') {
-      if (memberIds.length < 2) {
-        res.status(400).json({ error: 'Singles schedule needs at least 2 members' });
-        return;
-      }
-      schedule = generateSinglesSchedule(memberIds, seasonWeeks);
-    } else if (league.scoring_format === 'doubles') {
-      if (memberIds.length < 4) {
-        res.status(400).json({ error: 'Doubles schedule needs at least 4 members' });
-        return;
+    const previousRound = Math.max(
+      0,
+      ...(existingFixtures || []).map((fixture) => fixture.week_number || 0)
+    );
+    const round = previousRound + 1;
+    if (round > seasonWeeks) {
+      res.status(400).json({ error: `All ${seasonWeeks} Swiss rounds have been generated` });
+      return;
+    }
+
+    const existingIds = (existingFixtures || []).map((fixture) => fixture.id);
+    const { data: existingParticipants, error: participantsError } = existingIds.length
+      ? await supabaseAdmin
+          .from('league_fixture_participants')
+          .select('fixture_id, user_id, side')
+          .in('fixture_id', existingIds)
+      : { data: [] as Array<{ fixture_id: string; user_id: string; side: string }>, error: null };
+
+    if (participantsError) {
+      res.status(500).json({ error: participantsError.message });
+      return;
+    }
+
+    const byeFixtureIds = new Set(
+      (existingFixtures || [])
+        .filter((fixture) => (fixture.metadata as Record<string, unknown> | null)?.is_bye === true)
+        .map((fixture) => fixture.id)
+    );
+    const playersByFixture = new Map<string, string[]>();
+    for (const participant of existingParticipants || []) {
+      const current = playersByFixture.get(participant.fixture_id) || [];
+      current.push(participant.user_id);
+      playersByFixture.set(participant.fixture_id, current);
+    }
+
+    const playedPairs = new Set<string>();
+    const byeCounts = new Map<string, number>();
+    playersByFixture.forEach((players, fixtureId) => {
+      if (byeFixtureIds.has(fixtureId)) {
+        players.forEach((playerId) => byeCounts.set(playerId, (byeCounts.get(playerId) || 0) + 1));
+      } else if (players.length === 2) {
+        playedPairs.add(getPairingKey(players[0], players[1]));
       }
-      const partnerMode = getNestedString(rules, ['match', 'doubles_partner_mode']);
-      const isAssigned =
-        partnerMode === 'fixed_pairs' || league.rotation_type === 'assigned';
-      const configuredFixedPairs = getConfiguredFixedPairs(rules, new Set(memberIds));
-      if (isAssigned && configuredFixedPairs.length < 2) {
-        res.status(400).json({
-          error: 'Assigned doubles requires at least 2 fixed teams. Configure teams first.',
-        });
+    });
+
+    let standingsPayload: Awaited<ReturnType<typeof loadLeagueStandings>> = null;
+    try {
+      standingsPayload = await loadLeagueStandings(leagueId);
+    } catch (loadError) {
+      if (loadError instanceof LeagueStandingsLoadError) {
+        res.status(loadError.statusCode).json({ error: loadError.message });
         return;
       }
-      schedule = isAssigned
-        ? generateDoublesAssignedSchedule(memberIds, seasonWeeks, configuredFixedPairs)
-        : generateDoublesRandomSchedule(memberIds, seasonWeeks);
-    } else {
-      res
-        .status(400)
-        .json({ error: `Scheduling is not supported for ${league.scoring_format}` });
+      throw loadError;
+    }
+
+    if (!standingsPayload) {
+      res.status(400).json({ error: 'Could not load standings for this league' });
       return;
     }
 
-    let createdFixtures = 0;
-    let createdParticipants = 0;
+    const { data: members, error: membersError } = await supabaseAdmin
+      .from('league_members')
+      .select('user_id')
+      .eq('league_id', leagueId);
+
+    if (membersError) {
+      res.status(500).json({ error: 'Failed to load league members' });
+      return;
+    }
 
-    for (const entry of schedule) {
-      const startsAt = weekStartIso(startDate, entry.weekNumber, startTime);
+    const memberIdSet = new Set((members || []).map((m) => m.user_id).filter(Boolean));
+    const entrants = [...standingsPayload.standings]
+      .filter((standing) => memberIdSet.has(standing.user_id))
+      .sort((a, b) => a.rank - b.rank)
+      .map((standing) => ({ userId: standing.user_id, points: standing.points }));
+
+    if (entrants.length < 2) {
+      res.status(400).json({ error: 'Swiss rounds need at least 2 members' });
+      return;
+    }
+
+    const swissRound = generateSwissRound(entrants, round, { playedPairs, byeCounts });
+    const entries = [
+      ...swissRound.fixtures.map((fixture) => ({ fixture, isBye: false })),
+      ...(swissRound.byeUserId
+        ? [
+            {
+              fixture: { weekNumber: round, sideA: [swissRound.byeUserId], sideB: [] as string[] },
+              isBye: true,
+            },
+          ]
+        : []),
+    ];
+
+    const placements = placeOnMatchNights(
+      calendar,
+      entries.map(({ fixture }) => fixture),
+      [],
+      []
+    );
+
+    // Either the whole round is written or none of it, so a retry starts clean
+    const created: CreatedRows = { fixtureIds: [], sessionIds: [] };
+    for (const [index, { fixture: entry, isBye }] of entries.entries()) {
+      const { startsAt, weekday } = placements[index];
       const { data: fixture, error: fixtureError } = await supabaseAdmin
         .from('league_fixtures')
         .insert({
           league_id: leagueId,
-          week_number: entry.weekNumber,
+          week_number: round,
           starts_at: startsAt,
           ends_at: weekEndIso(startsAt),
           fixture_type: 'league_match',
-          status: 'scheduled',
+          status: isBye ? 'finalized' : 'scheduled',
           court_id: courtId,
           metadata: {
             generated: true,
             sport: league.sport_type,
             scoring_format: league.scoring_format,
+            swiss: true,
+            swiss_round: round,
+            is_bye: isBye,
+            ...(isBye ? { final_result: { winner: 'A', bye: true } } : {}),
+            ...(weekday !== null ? { match_day: weekday } : {}),
           },
           season_id: seasonId,
           created_by: userId,
@@ -420,9 +467,11 @@ router.post('/:id/schedule/generate', requireAuth, async (req: Request, res: Res
         .single();
 
       if (fixtureError || !fixture) {
+        await rollbackCreatedRows(created);
         res.status(500).json({ error: fixtureError?.message || 'Failed to create fixture' });
         return;
       }
+      created.fixtureIds.push(fixture.id);
 
       const participantRows = [
         ...entry.sideA.map((playerId) => ({
@@ -444,26 +493,23 @@ router.post('/:id/schedule/generate', requireAuth, async (req: Request, res: Res
         .insert(participantRows);
 
       if (participantError) {
-        await supabaseAdmin.from('league_fixtures').delete().eq('id', fixture.id);
+        await rollbackCreatedRows(created);
         res.status(500).json({ error: participantError.message });
         return;
       }
-
-      createdFixtures += 1;
-      createdParticipants += participantRows.length;
     }
 
     res.json({
       success: true,
-      sport: league.sport_type,
-      scoringFormat: league.scoring_format,
-      seasonWeeks,
-      createdFixtures,
-      createdParticipants,
+      round,
+      totalRounds: seasonWeeks,
+      createdFixtures: created.fixtureIds.length,
+      byeUserId: swissRound.byeUserId,
+      rematches: swissRound.rematches,
     });
   } catch (error) {
-    console.error('Schedule generation error:', error);
-    res.status(500).json({ error: 'Failed to generate schedule' });
+    console.error('Swiss round generation error:', error);
+    res.status(500).json({ error: 'Failed to generate Swiss round' });
   }
 });
 
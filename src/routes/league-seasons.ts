@@ -2,12 +2,25 @@ import { Router, Request, Response } from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
 import { supabaseAdmin } from '../utils/supabase';
+import { toRulesObject, type RulesObject } from '../utils/rules';
+import { getLeague } from '../services/league.service';
+import { getDivisionMovementCounts } from '../services/league-rules.service';
+import {
+  getDivisionHistory,
+  planDivisionMovements,
+  type DivisionMovementPlan,
+} from '../services/division.service';
+import {
+  LeagueStandingsLoadError,
+  loadLeagueStandings,
+} from '../services/league-standings-read.service';
 
 const router: Router = Router();
 
 /**
  * GET /api/leagues/:id/seasons
- * Returns all seasons for a league, ordered by season_number descending.
+ * Returns all seasons for a league, ordered by season_number descending, plus
+ * the promotion/relegation history of box league divisions.
  */
 router.get('/:id/seasons', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -39,13 +52,14 @@ router.get('/:id/seasons', requireAuth, async (req: Request, res: Response) => {
     // Get current season id from league
     const { data: league } = await supabaseAdmin
       .from('leagues')
-      .select('current_season_id')
+      .select('current_season_id, rules_jsonb')
       .eq('id', leagueId)
       .single();
 
     res.json({
       seasons: seasons || [],
       currentSeasonId: league?.current_season_id || null,
+      divisionHistory: getDivisionHistory(toRulesObject(league?.rules_jsonb)),
     });
   } catch (error) {
     console.error('Seasons fetch error:', error);
@@ -56,8 +70,9 @@ router.get('/:id/seasons', requireAuth, async (req: Request, res: Response) => {
 /**
  * POST /api/leagues/:id/seasons
  * Creates a new season. Completes the current season, cancels its non-finalized fixtures,
- * and sets the new season as current.
- * Body: { name?, start_date? }
+ * and sets the new season as current. In a box league the top players of each division
+ * move up and the bottom players move down, from the finished season's division tables.
+ * Body: { name?, start_date?, move_divisions?, promotion_count?, relegation_count? }
  */
 router.post('/:id/seasons', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -77,6 +92,53 @@ router.post('/:id/seasons', requireAuth, async (req: Request, res: Response) =>
       return;
     }
 
+    const league = await getLeague(leagueId);
+    if (!league) {
+      res.status(404).json({ error: 'League not found' });
+      return;
+    }
+
+    // Promotion and relegation are decided before the finished season is closed
+    const rules = toRulesObject(league.rules_jsonb);
+    const movementCounts = getDivisionMovementCounts(rules);
+    for (const [key, field] of [
+      ['promotion_count', 'promotion'],
+      ['relegation_count', 'relegation'],
+    ] as const) {
+      const value = req.body?.[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        res.status(400).json({ error: `${key} must be a non-negative integer` });
+        return;
+      }
+      movementCounts[field] = value;
+    }
+
+    let divisionPlan: DivisionMovementPlan | null = null;
+    if (req.body?.move_divisions !== false) {
+      const standings = await loadLeagueStandings(leagueId);
+      const rankedDivisions = (standings?.divisionStandings || []).map((table) =>
+        table.standings.map((row) => row.user_id)
+      );
+      if (rankedDivisions.length >= 2) {
+        divisionPlan = planDivisionMovements(
+          rankedDivisions,
+          movementCounts.promotion,
+          movementCounts.relegation
+        );
+        if (
+          divisionPlan.divisions.some(
+            (players, index) => players.length === 0 && rankedDivisions[index].length > 0
+          )
+        ) {
+          res.status(400).json({
+            error: 'promotion_count and relegation_count would leave a division empty',
+          });
+          return;
+        }
+      }
+    }
+
     // Get current max season number
     const { data: existingSeasons } = await supabaseAdmin
       .from('league_seasons')
@@ -119,17 +181,52 @@ router.post('/:id/seasons', requireAuth, async (req: Request, res: Response) =>
       return;
     }
 
-    // Update league's current_season_id
+    // Update league's current_season_id, and division membership for box leagues
+    const nextRules: RulesObject | null = divisionPlan
+      ? {
+          ...rules,
+          divisions: {
+            ...toRulesObject((rules as Record<string, unknown>).divisions),
+            assignments: divisionPlan.divisions,
+            history: [
+              ...getDivisionHistory(rules),
+              {
+                season_id: newSeason.id,
+                season_number: newSeason.season_number,
+                previous_season_id: lastSeason?.id || null,
+                moved_at: new Date().toISOString(),
+                movements: divisionPlan.movements,
+              },
+            ],
+          },
+        }
+      : null;
     await supabaseAdmin
       .from('leagues')
-      .update({ current_season_id: newSeason.id })
+      .update({
+        current_season_id: newSeason.id,
+        ...(nextRules ? { rules_jsonb: nextRules } : {}),
+      })
       .eq('id', leagueId);
 
     res.json({
       success: true,
       season: newSeason,
+      ...(divisionPlan
+        ? {
+            divisions: divisionPlan.divisions.map((players, index) => ({
+              division: index + 1,
+              players,
+            })),
+            divisionMovements: divisionPlan.movements,
+          }
+        : {}),
     });
   } catch (error) {
+    if (error instanceof LeagueStandingsLoadError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
     console.error('Season creation error:', error);
     res.status(500).json({ error: 'Failed to create season' });
   }
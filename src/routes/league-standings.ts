@@ -1,6 +1,8 @@
 import { Request, Response, Router } from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { getLeagueRole } from '../utils/league-access';
+import { getLeague } from '../services/league.service';
+import { LadderError, loadLadder } from '../services/ladder-read.service';
 import {
   LeagueStandingsLoadError,
   loadLeagueStandings,
@@ -24,6 +26,14 @@ router.get('/:id/standings', requireAuth, async (req: Request, res: Response) =>
       return;
     }
 
+    // Ladders rank by position rather than points, so they have their own view
+    const league = await getLeague(leagueId);
+    if (league?.league_type === 'ladder') {
+      const { order: _order, ...ladder } = await loadLadder(league);
+      res.json(ladder);
+      return;
+    }
+
     const payload = await loadLeagueStandings(leagueId);
     if (!payload) {
       res.status(404).json({ error: 'League not found' });
@@ -32,7 +42,7 @@ router.get('/:id/standings', requireAuth, async (req: Request, res: Response) =>
 
     res.json(payload);
   } catch (error) {
-    if (error instanceof LeagueStandingsLoadError) {
+    if (error instanceof LeagueStandingsLoadError || error instanceof LadderError) {
       res.status(error.statusCode).json({ error: error.message });
       return;
     }
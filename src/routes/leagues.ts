@@ -4,7 +4,15 @@ import { supabaseAdmin } from '../utils/supabase';
 import { getLeagueRole, isLeagueAdminRole } from '../utils/league-access';
 import { getLeague } from '../services/league.service';
 import { notifyLeagueMembers } from '../services/notification.service';
-import { toIsoOrNull, weekEndIso } from '../utils/league-dates';
+import { getScheduleCalendar, getWeekStartIso } from '../services/league-schedule.service';
+import { getLeagueTimeZone } from '../services/league-rules.service';
+import {
+  sessionDeadlineIso,
+  toIsoOrNull,
+  toLocalIso,
+  weekEndIso,
+} from '../utils/league-dates';
+import { toRulesObject } from '../utils/rules';
 
 const router: Router = Router();
 
@@ -110,6 +118,9 @@ router.get('/:id/sessions', requireAuth, async (req: Request, res: Response) =>
       runsBySession.set(run.session_id, current);
     });
 
+    const league = await getLeague(leagueId);
+    const timeZone = getLeagueTimeZone(toRulesObject(league?.rules_jsonb));
+
     const response = (sessions || []).map((session) => {
       const sessionRuns = runsBySession.get(session.id) || [];
       const myRun =
@@ -119,6 +130,9 @@ router.get('/:id/sessions', requireAuth, async (req: Request, res: Response) =>
 
       return {
         ...session,
+        starts_at_local: toLocalIso(session.starts_at, timeZone),
+        submission_deadline_local: toLocalIso(session.submission_deadline, timeZone),
+        time_zone: timeZone,
         runs: sessionRuns,
         my_run: myRun,
       };
@@ -150,8 +164,8 @@ router.post('/:id/sessions', requireAuth, async (req: Request, res: Response) =>
       req.body?.status === 'finalized'
         ? req.body.status
         : 'scheduled';
-    const startsAt = toIsoOrNull(req.body?.startsAt);
-    const submissionDeadline = toIsoOrNull(req.body?.submissionDeadline);
+    const requestedStartsAt = toIsoOrNull(req.body?.startsAt);
+    const requestedDeadline = toIsoOrNull(req.body?.submissionDeadline);
     const distanceMeters =
       typeof req.body?.distanceMeters === 'number' &&
       Number.isFinite(req.body.distanceMeters) &&
@@ -189,6 +203,14 @@ router.post('/:id/sessions', requireAuth, async (req: Request, res: Response) =>
       return;
     }
 
+    // Sessions without explicit dates open on the week's first match night, skipping blackouts.
+    const calendar = getScheduleCalendar(league, toRulesObject(league.rules_jsonb));
+    const { blackoutDates, timeZone } = calendar;
+    const startsAt = requestedStartsAt || getWeekStartIso(calendar, weekNumber);
+    const submissionDeadline =
+      requestedDeadline ||
+      (requestedStartsAt ? null : sessionDeadlineIso(startsAt, blackoutDates, timeZone));
+
     const { data: session, error: sessionError } = await supabaseAdmin
       .from('running_sessions')
       .upsert(
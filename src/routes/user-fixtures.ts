@@ -1,13 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { supabaseAdmin } from '../utils/supabase';
+import { toRulesObject } from '../utils/rules';
+import { getBlackoutDates, getLeagueTimeZone } from '../services/league-rules.service';
+import { toLocalDate, toLocalIso } from '../utils/league-dates';
 
 const router: Router = Router();
 
 /**
  * GET /api/users/me/upcoming-fixtures
  * Returns the authenticated user's upcoming fixtures across all leagues,
- * including league name, court info, and pending action flags.
+ * including league name, court info, start/end times in UTC and in the
+ * league's timezone, and pending action flags. Fixtures
+ * dated on a league blackout day (added after generation) are flagged.
  */
 router.get('/me/upcoming-fixtures', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -34,11 +39,22 @@ router.get('/me/upcoming-fixtures', requireAuth, async (req: Request, res: Respo
     // Get league details
     const { data: leagues } = await supabaseAdmin
       .from('leagues')
-      .select('id, name, sport_type')
+      .select('id, name, sport_type, rules_jsonb')
       .in('id', leagueIds);
 
     const leagueMap = new Map(
-      (leagues || []).map((l) => [l.id, { name: l.name, sport_type: l.sport_type }])
+      (leagues || []).map((l) => {
+        const rules = toRulesObject(l.rules_jsonb);
+        return [
+          l.id,
+          {
+            name: l.name,
+            sport_type: l.sport_type,
+            blackoutDates: new Set(getBlackoutDates(rules)),
+            timeZone: getLeagueTimeZone(rules),
+          },
+        ] as const;
+      })
     );
 
     // Get upcoming fixtures for these leagues (not finalized or cancelled)
@@ -151,11 +167,17 @@ router.get('/me/upcoming-fixtures', requireAuth, async (req: Request, res: Respo
           fixtureType: f.fixture_type,
           startsAt: f.starts_at,
           endsAt: f.ends_at,
+          startsAtLocal: toLocalIso(f.starts_at, league?.timeZone),
+          endsAtLocal: toLocalIso(f.ends_at, league?.timeZone),
+          timeZone: league?.timeZone || 'UTC',
           status: f.status,
           court: f.court_id ? courtMap.get(f.court_id) || null : null,
           opponents,
           pendingSubmissionId: pendingByFixture.get(f.id) || null,
           needsAction: pendingByFixture.has(f.id) || f.status === 'disputed',
+          onBlackoutDate: Boolean(
+            league?.blackoutDates.has(toLocalDate(f.starts_at, league.timeZone) || '')
+          ),
         };
       });
 
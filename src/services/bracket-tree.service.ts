@@ -0,0 +1,228 @@
+export type BracketFixtureRow = {
+  id: string;
+  status: string;
+  starts_at: string | null;
+  metadata: Record<string, unknown> | null;
+  participants: Array<{ user_id: string; side: string }>;
+};
+
+export type BracketPlayer = {
+  user_id: string;
+  name: string | null;
+  avatar_url: string | null;
+};
+
+export type BracketSide = {
+  players: BracketPlayer[];
+  seed: number | null;
+  /** No player has reached this slot yet. */
+  tbd: boolean;
+  /** Fixture whose winner or loser fills this slot; null for first-round entries. */
+  source: { fixtureId: string; outcome: 'winner' | 'loser' } | null;
+};
+
+export type BracketNode = {
+  fixtureId: string;
+  matchNumber: number | null;
+  bracket: string;
+  round: number | null;
+  stage: number | null;
+  roundLabel: string | null;
+  status: string;
+  startsAt: string | null;
+  isBye: boolean;
+  /** An earlier result was overturned after this fixture already had one. */
+  needsReview: boolean;
+  sideA: BracketSide;
+  sideB: BracketSide;
+  winner: 'A' | 'B' | null;
+  sets: number[][] | null;
+  /** Fixtures whose winners feed this one, by slot. Loser feeds are only named in `source`. */
+  children: { A: BracketNode | null; B: BracketNode | null };
+};
+
+export type BracketRound = {
+  bracket: string;
+  round: number;
+  label: string | null;
+  fixtureIds: string[];
+};
+
+export type BracketTree = {
+  /** Fixtures nothing advances from: the final, third-place match, plate final, reset. */
+  roots: BracketNode[];
+  rounds: BracketRound[];
+};
+
+const BRACKET_ORDER = [
+  'main',
+  'winners',
+  'losers',
+  'grand_final',
+  'grand_final_reset',
+  'third_place',
+  'consolation',
+];
+
+function readString(metadata: Record<string, unknown>, key: string): string | null {
+  return typeof metadata[key] === 'string' ? (metadata[key] as string) : null;
+}
+
+function readNumber(metadata: Record<string, unknown>, key: string): number | null {
+  return typeof metadata[key] === 'number' ? (metadata[key] as number) : null;
+}
+
+function readResult(metadata: Record<string, unknown>): {
+  winner: 'A' | 'B' | null;
+  sets: number[][] | null;
+} {
+  const result = metadata.final_result;
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return { winner: null, sets: null };
+  }
+  const record = result as Record<string, unknown>;
+  const sets = Array.isArray(record.sets)
+    ? record.sets.filter(
+        (set): set is number[] =>
+          Array.isArray(set) && set.length === 2 && set.every((value) => typeof value === 'number')
+      )
+    : [];
+  return {
+    winner: record.winner === 'A' || record.winner === 'B' ? record.winner : null,
+    sets: sets.length > 0 ? sets : null,
+  };
+}
+
+function bracketRank(bracket: string): number {
+  const index = BRACKET_ORDER.indexOf(bracket);
+  return index === -1 ? BRACKET_ORDER.length : index;
+}
+
+/**
+ * Nests flat tournament fixtures into a bracket tree using their
+ * `next_fixture_id` / `bracket_slot` links (and loser links for slot sources).
+ * Slots nobody has reached yet are TBD.
+ */
+export function buildBracketTree(
+  fixtures: BracketFixtureRow[],
+  players: Map<string, BracketPlayer>
+): BracketTree {
+  const metadataById = new Map(fixtures.map((fixture) => [fixture.id, fixture.metadata || {}]));
+  const feeders = new Map<string, { fixtureId: string; outcome: 'winner' | 'loser' }>();
+  const childIds = new Map<string, { A: string | null; B: string | null }>();
+  const hasNext = new Set<string>();
+
+  for (const fixture of fixtures) {
+    const metadata = metadataById.get(fixture.id) || {};
+    const links = [
+      {
+        target: readString(metadata, 'next_fixture_id'),
+        slot: readString(metadata, 'bracket_slot'),
+        outcome: 'winner' as const,
+      },
+      {
+        target: readString(metadata, 'loser_next_fixture_id'),
+        slot: readString(metadata, 'loser_bracket_slot'),
+        outcome: 'loser' as const,
+      },
+    ];
+    for (const { target, slot, outcome } of links) {
+      if (!target || (slot !== 'A' && slot !== 'B') || !metadataById.has(target)) continue;
+      feeders.set(`${target}:${slot}`, { fixtureId: fixture.id, outcome });
+      if (outcome === 'winner') {
+        hasNext.add(fixture.id);
+        const children = childIds.get(target) || { A: null, B: null };
+        children[slot] = fixture.id;
+        childIds.set(target, children);
+      }
+    }
+  }
+
+  const fixtureById = new Map(fixtures.map((fixture) => [fixture.id, fixture]));
+  const buildSide = (fixture: BracketFixtureRow, slot: 'A' | 'B'): BracketSide => {
+    const metadata = metadataById.get(fixture.id) || {};
+    const sidePlayers = fixture.participants
+      .filter((participant) => participant.side === slot)
+      .map(
+        (participant) =>
+          players.get(participant.user_id) || {
+            user_id: participant.user_id,
+            name: null,
+            avatar_url: null,
+          }
+      );
+    return {
+      players: sidePlayers,
+      seed: readNumber(metadata, slot === 'A' ? 'seed_a' : 'seed_b'),
+      tbd: sidePlayers.length === 0,
+      source: feeders.get(`${fixture.id}:${slot}`) || null,
+    };
+  };
+
+  const buildNode = (fixtureId: string, visited: Set<string>): BracketNode | null => {
+    const fixture = fixtureById.get(fixtureId);
+    if (!fixture || visited.has(fixtureId)) return null;
+    visited.add(fixtureId);
+
+    const metadata = metadataById.get(fixtureId) || {};
+    const { winner, sets } = readResult(metadata);
+    const children = childIds.get(fixtureId) || { A: null, B: null };
+    return {
+      fixtureId,
+      matchNumber: readNumber(metadata, 'match_number'),
+      bracket: readString(metadata, 'bracket') || 'main',
+      round: readNumber(metadata, 'round'),
+      stage: readNumber(metadata, 'stage'),
+      roundLabel: readString(metadata, 'round_label'),
+      status: fixture.status,
+      startsAt: fixture.starts_at,
+      isBye: metadata.is_bye === true,
+      needsReview: metadata.needs_review === true,
+      sideA: buildSide(fixture, 'A'),
+      sideB: buildSide(fixture, 'B'),
+      winner,
+      sets,
+      children: {
+        A: children.A ? buildNode(children.A, visited) : null,
+        B: children.B ? buildNode(children.B, visited) : null,
+      },
+    };
+  };
+
+  const sorted = [...fixtures].sort((a, b) => {
+    const aMeta = metadataById.get(a.id) || {};
+    const bMeta = metadataById.get(b.id) || {};
+    return (
+      bracketRank(readString(aMeta, 'bracket') || 'main') -
+        bracketRank(readString(bMeta, 'bracket') || 'main') ||
+      (readNumber(aMeta, 'round') ?? 0) - (readNumber(bMeta, 'round') ?? 0) ||
+      (readNumber(aMeta, 'match_number') ?? 0) - (readNumber(bMeta, 'match_number') ?? 0)
+    );
+  });
+
+  const visited = new Set<string>();
+  const roots = sorted
+    .filter((fixture) => !hasNext.has(fixture.id))
+    .map((fixture) => buildNode(fixture.id, visited))
+    .filter((node): node is BracketNode => node !== null);
+
+  const rounds: BracketRound[] = [];
+  for (const fixture of sorted) {
+    const metadata = metadataById.get(fixture.id) || {};
+    const bracket = readString(metadata, 'bracket') || 'main';
+    const round = readNumber(metadata, 'round') ?? 0;
+    const existing = rounds.find((entry) => entry.bracket === bracket && entry.round === round);
+    if (existing) {
+      existing.fixtureIds.push(fixture.id);
+    } else {
+      rounds.push({
+        bracket,
+        round,
+        label: readString(metadata, 'round_label'),
+        fixtureIds: [fixture.id],
+      });
+    }
+  }
+
+  return { roots, rounds };
+}
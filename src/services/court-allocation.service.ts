@@ -0,0 +1,80 @@
+import { type ScheduledFixture } from './fixture-schedule.service';
+import { type CourtConfig } from './league-rules.service';
+
+export type SlotAssignment = {
+  courtId: string;
+  /** 1-based surface on the court. */
+  surface: number;
+  timeSlot: string;
+};
+
+/**
+ * Gives each fixture a court surface and time slot on its match night. A
+ * surface hosts one fixture per slot and a player plays at most once per
+ * slot. Returns one entry per fixture, in order; null means it didn't fit.
+ */
+export function allocateCourtSlots(
+  fixtures: ScheduledFixture[],
+  courts: CourtConfig[],
+  timeSlots: string[]
+): Array<SlotAssignment | null> {
+  // `${week}|${slot}` -> surfaces in use and players already on court
+  const booked = new Map<string, { surfaces: Set<string>; players: Set<string> }>();
+
+  return fixtures.map((fixture) => {
+    const players = [...fixture.sideA, ...fixture.sideB];
+
+    for (const timeSlot of timeSlots) {
+      const key = `${fixture.weekNumber}|${timeSlot}`;
+      const slot = booked.get(key) || { surfaces: new Set<string>(), players: new Set<string>() };
+      if (players.some((playerId) => slot.players.has(playerId))) continue;
+
+      for (const court of courts) {
+        for (let surface = 1; surface <= court.surfaces; surface++) {
+          const surfaceKey = `${court.courtId}#${surface}`;
+          if (slot.surfaces.has(surfaceKey)) continue;
+
+          slot.surfaces.add(surfaceKey);
+          players.forEach((playerId) => slot.players.add(playerId));
+          booked.set(key, slot);
+          return { courtId: court.courtId, surface, timeSlot };
+        }
+      }
+    }
+
+    return null;
+  });
+}
+
+/**
+ * Picks a match night for each fixture from the nights its week has
+ * (`nightsByWeek`, default 1), keeping nights evenly loaded and each player to
+ * one match per night. A player only doubles up when they have more matches
+ * that week than there are nights. Returns a night index per fixture, in order.
+ */
+export function spreadAcrossMatchNights(
+  fixtures: ScheduledFixture[],
+  nightsByWeek: Map<number, number>
+): number[] {
+  // `${week}|${night}` -> fixture count and players already playing
+  const booked = new Map<string, { count: number; players: Set<string> }>();
+
+  return fixtures.map((fixture) => {
+    const players = [...fixture.sideA, ...fixture.sideB];
+    const nightCount = Math.max(1, nightsByWeek.get(fixture.weekNumber) ?? 1);
+    const nights = Array.from({ length: nightCount }, (_, night) => {
+      const key = `${fixture.weekNumber}|${night}`;
+      const slot = booked.get(key) || { count: 0, players: new Set<string>() };
+      booked.set(key, slot);
+      return { night, slot, clash: players.some((playerId) => slot.players.has(playerId)) };
+    });
+
+    const [chosen] = nights.sort(
+      (a, b) =>
+        Number(a.clash) - Number(b.clash) || a.slot.count - b.slot.count || a.night - b.night
+    );
+    chosen.slot.count += 1;
+    players.forEach((playerId) => chosen.slot.players.add(playerId));
+    return chosen.night;
+  });
+}
@@ -0,0 +1,104 @@
+import { getNestedArray, type RulesObject } from '../utils/rules';
+import { type Standing } from './standings.service';
+
+export type DivisionStanding = {
+  /** 1 is the top division. */
+  division: number;
+  standings: Standing[];
+};
+
+export type DivisionMovement = {
+  user_id: string;
+  from_division: number;
+  to_division: number;
+  direction: 'promoted' | 'relegated';
+  /** Finishing rank within the division the player left. */
+  final_rank: number;
+};
+
+/** One season change, as kept in `divisions.history`. */
+export type DivisionHistoryEntry = {
+  season_id: string;
+  season_number: number;
+  previous_season_id: string | null;
+  moved_at: string;
+  movements: DivisionMovement[];
+};
+
+export type DivisionMovementPlan = {
+  divisions: string[][];
+  movements: DivisionMovement[];
+};
+
+/**
+ * Moves the top `promotion` players of each division up one and the bottom
+ * `relegation` players down one. `rankedDivisions` lists each division's
+ * players in finishing order, top division first. In a division too small
+ * for both, promotion wins and the player is not also relegated.
+ */
+export function planDivisionMovements(
+  rankedDivisions: string[][],
+  promotion: number,
+  relegation: number
+): DivisionMovementPlan {
+  const lastIndex = rankedDivisions.length - 1;
+  const movements: DivisionMovement[] = [];
+  const staying = rankedDivisions.map(() => [] as string[]);
+  const arriving = rankedDivisions.map(() => ({
+    fromAbove: [] as string[],
+    fromBelow: [] as string[],
+  }));
+
+  rankedDivisions.forEach((players, index) => {
+    const promoted = new Set(index > 0 ? players.slice(0, promotion) : []);
+    const relegated = new Set(
+      index < lastIndex && relegation > 0
+        ? players.slice(-relegation).filter((userId) => !promoted.has(userId))
+        : []
+    );
+
+    players.forEach((userId, rankIndex) => {
+      const direction = promoted.has(userId)
+        ? 'promoted'
+        : relegated.has(userId)
+          ? 'relegated'
+          : null;
+      if (!direction) {
+        staying[index].push(userId);
+        return;
+      }
+
+      const target = direction === 'promoted' ? index - 1 : index + 1;
+      if (direction === 'promoted') arriving[target].fromBelow.push(userId);
+      else arriving[target].fromAbove.push(userId);
+      movements.push({
+        user_id: userId,
+        from_division: index + 1,
+        to_division: target + 1,
+        direction,
+        final_rank: rankIndex + 1,
+      });
+    });
+  });
+
+  return {
+    divisions: staying.map((players, index) => [
+      ...arriving[index].fromAbove,
+      ...players,
+      ...arriving[index].fromBelow,
+    ]),
+    movements,
+  };
+}
+
+/** Past promotions and relegations from `divisions.history`, oldest first. */
+export function getDivisionHistory(rules: RulesObject): DivisionHistoryEntry[] {
+  const history = getNestedArray(rules, ['divisions', 'history']) || [];
+  return history.filter(
+    (entry): entry is DivisionHistoryEntry =>
+      !!entry &&
+      typeof entry === 'object' &&
+      typeof (entry as Record<string, unknown>).season_id === 'string' &&
+      Array.isArray((entry as Record<string, unknown>).movements)
+  );
+}
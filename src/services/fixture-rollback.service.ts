@@ -0,0 +1,59 @@
+import { supabaseAdmin } from '../utils/supabase';
+
+/** Rows written so far by a generation that inserts one row at a time. */
+export type CreatedRows = {
+  fixtureIds: string[];
+  sessionIds: string[];
+};
+
+/**
+ * Deletes everything a failed generation wrote (participants, fixtures and
+ * running sessions) so a retry starts from a clean league. Cleanup failures
+ * are logged; callers still report the original error.
+ */
+export async function rollbackCreatedRows(created: CreatedRows): Promise<void> {
+  if (created.fixtureIds.length > 0) {
+    const { error: participantError } = await supabaseAdmin
+      .from('league_fixture_participants')
+      .delete()
+      .in('fixture_id', created.fixtureIds);
+
+    if (participantError) {
+      console.error('Fixture rollback error:', participantError);
+    }
+
+    const { error: fixtureError } = await supabaseAdmin
+      .from('league_fixtures')
+      .delete()
+      .in('id', created.fixtureIds);
+
+    if (fixtureError) {
+      console.error('Fixture rollback error:', fixtureError);
+    }
+  }
+
+  if (created.sessionIds.length > 0) {
+    const { error: sessionError } = await supabaseAdmin
+      .from('running_sessions')
+      .delete()
+      .in('id', created.sessionIds);
+
+    if (sessionError) {
+      console.error('Session rollback error:', sessionError);
+    }
+  }
+}
+
+/**
+ * Runs a multi-insert generation as one unit: if it throws, every row it
+ * recorded in `created` is deleted before the error is rethrown.
+ */
+export async function withRollback<T>(run: (created: CreatedRows) => Promise<T>): Promise<T> {
+  const created: CreatedRows = { fixtureIds: [], sessionIds: [] };
+  try {
+    return await run(created);
+  } catch (error) {
+    await rollbackCreatedRows(created);
+    throw error;
+  }
+}
@@ -1,72 +1,348 @@
+import { shuffle, type RandomSource } from '../utils/random';
+
 export type ScheduledFixture = {
   weekNumber: number;
   sideA: string[];
   sideB: string[];
+  deferredFromWeek?: number;
 };
 
+/** Week number -> user ids marked `unavailable` for that week. */
+export type UnavailableByWeek = Map<number, Set<string>>;
+
+export type ScheduleOptions = {
+  unavailableByWeek?: UnavailableByWeek;
+  /** Round-robin cycles to play; omitted repeats the cycle until the season is full. */
+  legs?: number;
+  /** Drives every random choice; pass a seeded source for a reproducible draw. */
+  random?: RandomSource;
+};
+
+/**
+ * Singles round robin. Availability is not applied here; run the result
+ * through rebalanceForAvailability so fixtures that find no week are reported.
+ */
 export function generateSinglesSchedule(
   memberIds: string[],
-  weeks: number
+  weeks: number,
+  options: Pick<ScheduleOptions, 'legs'> = {}
 ): ScheduledFixture[] {
-  const ids = [...memberIds];
-  if (ids.length % 2 !== 0) {
-    ids.push('BYE');
+  return buildRoundRobinWeeks(
+    memberIds.map((memberId) => [memberId]),
+    weeks,
+    options.legs
+  );
+}
+
+export type SwissEntrant = {
+  userId: string;
+  points: number;
+};
+
+export type SwissHistory = {
+  /** Pairing keys (see getPairingKey) of matches already played. */
+  playedPairs: Set<string>;
+  /** user id -> byes already received. */
+  byeCounts: Map<string, number>;
+};
+
+export type SwissRound = {
+  fixtures: ScheduledFixture[];
+  byeUserId: string | null;
+  rematches: number;
+};
+
+const SWISS_SEARCH_LIMIT = 20000;
+
+export function getPairingKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Pairs one Swiss round. `entrants` must be ordered by current standing; each
+ * player is paired with the closest-ranked opponent they have not met yet.
+ * With an odd field the bye goes to the lowest-ranked player among those with
+ * the fewest byes. Rematches are only used when no rematch-free pairing exists.
+ */
+export function generateSwissRound(
+  entrants: SwissEntrant[],
+  weekNumber: number,
+  history: SwissHistory
+): SwissRound {
+  const ordered = [...entrants];
+  let byeUserId: string | null = null;
+
+  if (ordered.length % 2 !== 0) {
+    const fewestByes = Math.min(
+      ...ordered.map((entrant) => history.byeCounts.get(entrant.userId) || 0)
+    );
+    for (let i = ordered.length - 1; i >= 0; i--) {
+      if ((history.byeCounts.get(ordered[i].userId) || 0) === fewestByes) {
+        byeUserId = ordered[i].userId;
+        ordered.splice(i, 1);
+        break;
+      }
+    }
   }
 
-  const count = ids.length;
-  const rounds: ScheduledFixture[] = [];
-  const totalRounds = count - 1;
+  const ids = ordered.map((entrant) => entrant.userId);
+  let steps = 0;
 
-  for (let week = 1; week <= weeks; week++) {
-    const roundIndex = (week - 1) % totalRounds;
-    const rotated = [ids[0]];
+  const pairWithoutRematches = (remaining: string[]): Array<[string, string]> | null => {
+    if (remaining.length === 0) return [];
+    const [first, ...rest] = remaining;
+    for (let i = 0; i < rest.length; i++) {
+      steps += 1;
+      if (steps > SWISS_SEARCH_LIMIT) return null;
+      if (history.playedPairs.has(getPairingKey(first, rest[i]))) continue;
+      const tail = pairWithoutRematches([...rest.slice(0, i), ...rest.slice(i + 1)]);
+      if (tail) return [[first, rest[i]], ...tail];
+    }
+    return null;
+  };
 
-    for (let i = 1; i < count; i++) {
-      const pos = ((i - 1 + roundIndex) % (count - 1)) + 1;
-      rotated.push(ids[pos]);
+  let pairs = pairWithoutRematches(ids);
+  let rematches = 0;
+
+  if (!pairs) {
+    pairs = [];
+    const remaining = [...ids];
+    while (remaining.length >= 2) {
+      const first = remaining.shift() as string;
+      const freshIndex = remaining.findIndex(
+        (candidate) => !history.playedPairs.has(getPairingKey(first, candidate))
+      );
+      const index = freshIndex === -1 ? 0 : freshIndex;
+      if (freshIndex === -1) rematches += 1;
+      pairs.push([first, remaining[index]]);
+      remaining.splice(index, 1);
     }
+  }
 
-    for (let i = 0; i < count / 2; i++) {
-      const a = rotated[i];
-      const b = rotated[count - 1 - i];
-      if (a === 'BYE' || b === 'BYE') continue;
-      rounds.push({
-        weekNumber: week,
-        sideA: [a],
-        sideB: [b],
-      });
+  return {
+    fixtures: pairs.map(([a, b]) => ({ weekNumber, sideA: [a], sideB: [b] })),
+    byeUserId,
+    rematches,
+  };
+}
+
+export type DoublesFairnessReport = {
+  /** Partnerships played again after their first week together, summed over all pairs. */
+  partnerRepeats: number;
+  /** Opponent meetings beyond the first, summed over all pairs. */
+  opponentRepeats: number;
+  /** user id -> weeks sat out while available. */
+  sitOuts: Record<string, number>;
+  uniquePartners: Record<string, number>;
+  uniqueOpponents: Record<string, number>;
+};
+
+export type DoublesRotationSchedule = {
+  fixtures: ScheduledFixture[];
+  fairness: DoublesFairnessReport;
+};
+
+const ROTATION_ATTEMPTS = 24;
+const PARTNER_REPEAT_WEIGHT = 2;
+
+type PairCounts = Map<string, number>;
+
+function getPairCount(counts: PairCounts, a: string, b: string): number {
+  return counts.get(getPairingKey(a, b)) || 0;
+}
+
+function incrementPair(counts: PairCounts, a: string, b: string): void {
+  const key = getPairingKey(a, b);
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * Cheapest way to split four players into two partnerships, where every
+ * partnership or opponent pairing costs as much as it has already been played.
+ */
+function splitFoursome(
+  group: string[],
+  partners: PairCounts,
+  opponents: PairCounts
+): { cost: number; sideA: string[]; sideB: string[] } {
+  const splits: Array<[number, number, number, number]> = [
+    [0, 1, 2, 3],
+    [0, 2, 1, 3],
+    [0, 3, 1, 2],
+  ];
+
+  let best: { cost: number; sideA: string[]; sideB: string[] } | null = null;
+  for (const [a1, a2, b1, b2] of splits) {
+    const sideA = [group[a1], group[a2]];
+    const sideB = [group[b1], group[b2]];
+    let cost =
+      (getPairCount(partners, sideA[0], sideA[1]) + getPairCount(partners, sideB[0], sideB[1])) *
+      PARTNER_REPEAT_WEIGHT;
+    for (const a of sideA) {
+      for (const b of sideB) cost += getPairCount(opponents, a, b);
     }
+    if (!best || cost < best.cost) best = { cost, sideA, sideB };
   }
+  return best as { cost: number; sideA: string[]; sideB: string[] };
+}
 
-  return rounds;
+/**
+ * Arranges a multiple-of-four player list into foursomes with as few repeat
+ * partners and opponents as possible: random restarts, each improved by
+ * swapping players between foursomes until no swap helps.
+ */
+function arrangeFoursomes(
+  players: string[],
+  partners: PairCounts,
+  opponents: PairCounts,
+  random: RandomSource
+): Array<{ sideA: string[]; sideB: string[] }> {
+  const groupCost = (order: string[], group: number) =>
+    splitFoursome(order.slice(group * 4, group * 4 + 4), partners, opponents).cost;
+  const groupCount = players.length / 4;
+
+  let bestOrder: string[] = [];
+  let bestCost = Number.POSITIVE_INFINITY;
+
+  for (let attempt = 0; attempt < ROTATION_ATTEMPTS && bestCost > 0; attempt++) {
+    const order = shuffle(players, random);
+    const costs = Array.from({ length: groupCount }, (_, group) => groupCost(order, group));
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let i = 0; i < order.length; i++) {
+        for (let j = i + 1; j < order.length; j++) {
+          const gi = Math.floor(i / 4);
+          const gj = Math.floor(j / 4);
+          if (gi === gj) continue;
+
+          [order[i], order[j]] = [order[j], order[i]];
+          const nextI = groupCost(order, gi);
+          const nextJ = groupCost(order, gj);
+          if (nextI + nextJ < costs[gi] + costs[gj]) {
+            costs[gi] = nextI;
+            costs[gj] = nextJ;
+            improved = true;
+          } else {
+            [order[i], order[j]] = [order[j], order[i]];
+          }
+        }
+      }
+    }
+
+    const total = costs.reduce((sum, cost) => sum + cost, 0);
+    if (total < bestCost) {
+      bestCost = total;
+      bestOrder = [...order];
+    }
+  }
+
+  return Array.from({ length: groupCount }, (_, group) => {
+    const { sideA, sideB } = splitFoursome(
+      bestOrder.slice(group * 4, group * 4 + 4),
+      partners,
+      opponents
+    );
+    return { sideA, sideB };
+  });
+}
+
+/**
+ * Random doubles schedule that rotates partners and opponents across the
+ * season and spreads sit-outs evenly when the available count isn't a
+ * multiple of four. Returns the fixtures with a fairness report.
+ */
+export function generateDoublesRotationSchedule(
+  memberIds: string[],
+  weeks: number,
+  options: ScheduleOptions = {}
+): DoublesRotationSchedule {
+  const fixtures: ScheduledFixture[] = [];
+  const partners: PairCounts = new Map();
+  const opponents: PairCounts = new Map();
+  const sitOuts = new Map(memberIds.map((memberId) => [memberId, 0]));
+  const random = options.random ?? Math.random;
+
+  for (let week = 1; week <= weeks; week++) {
+    const unavailable = options.unavailableByWeek?.get(week);
+    const available = unavailable
+      ? memberIds.filter((memberId) => !unavailable.has(memberId))
+      : [...memberIds];
+
+    // Whoever has sat out least sits out next; shuffle first so ties rotate
+    const bySitOuts = shuffle(available, random).sort(
+      (a, b) => (sitOuts.get(a) || 0) - (sitOuts.get(b) || 0)
+    );
+    const sittingOut = bySitOuts.slice(0, available.length % 4);
+    sittingOut.forEach((memberId) => sitOuts.set(memberId, (sitOuts.get(memberId) || 0) + 1));
+    const playing = bySitOuts.slice(sittingOut.length);
+
+    for (const { sideA, sideB } of arrangeFoursomes(playing, partners, opponents, random)) {
+      fixtures.push({ weekNumber: week, sideA, sideB });
+      incrementPair(partners, sideA[0], sideA[1]);
+      incrementPair(partners, sideB[0], sideB[1]);
+      for (const a of sideA) {
+        for (const b of sideB) incrementPair(opponents, a, b);
+      }
+    }
+  }
+
+  return { fixtures, fairness: buildDoublesFairnessReport(memberIds, fixtures, sitOuts) };
 }
 
 export function generateDoublesRandomSchedule(
   memberIds: string[],
-  weeks: number
+  weeks: number,
+  options: ScheduleOptions = {}
 ): ScheduledFixture[] {
-  const rounds: ScheduledFixture[] = [];
+  return generateDoublesRotationSchedule(memberIds, weeks, options).fixtures;
+}
 
-  for (let week = 1; week <= weeks; week++) {
-    const shuffled = fisherYatesShuffle([...memberIds]);
-    const playable = shuffled.length - (shuffled.length % 4);
+function buildDoublesFairnessReport(
+  memberIds: string[],
+  fixtures: ScheduledFixture[],
+  sitOuts: Map<string, number>
+): DoublesFairnessReport {
+  const partners: PairCounts = new Map();
+  const opponents: PairCounts = new Map();
+  const partnersOf = new Map(memberIds.map((memberId) => [memberId, new Set<string>()]));
+  const opponentsOf = new Map(memberIds.map((memberId) => [memberId, new Set<string>()]));
 
-    for (let i = 0; i < playable; i += 4) {
-      rounds.push({
-        weekNumber: week,
-        sideA: [shuffled[i], shuffled[i + 1]],
-        sideB: [shuffled[i + 2], shuffled[i + 3]],
-      });
+  for (const fixture of fixtures) {
+    for (const side of [fixture.sideA, fixture.sideB]) {
+      incrementPair(partners, side[0], side[1]);
+      partnersOf.get(side[0])?.add(side[1]);
+      partnersOf.get(side[1])?.add(side[0]);
+    }
+    for (const a of fixture.sideA) {
+      for (const b of fixture.sideB) {
+        incrementPair(opponents, a, b);
+        opponentsOf.get(a)?.add(b);
+        opponentsOf.get(b)?.add(a);
+      }
     }
   }
 
-  return rounds;
+  const countRepeats = (counts: PairCounts) =>
+    [...counts.values()].reduce((sum, count) => sum + count - 1, 0);
+  const sizes = (sets: Map<string, Set<string>>) =>
+    Object.fromEntries([...sets].map(([memberId, set]) => [memberId, set.size]));
+
+  return {
+    partnerRepeats: countRepeats(partners),
+    opponentRepeats: countRepeats(opponents),
+    sitOuts: Object.fromEntries(sitOuts),
+    uniquePartners: sizes(partnersOf),
+    uniqueOpponents: sizes(opponentsOf),
+  };
 }
 
 export function generateDoublesAssignedSchedule(
   memberIds: string[],
   weeks: number,
-  fixedTeams?: Array<[string, string]>
+  fixedTeams?: Array<[string, string]>,
+  options: Pick<ScheduleOptions, 'legs'> = {}
 ): ScheduledFixture[] {
   const teams: [string, string][] = fixedTeams?.length
     ? fixedTeams.map((team) => [team[0], team[1]])
@@ -81,28 +357,60 @@ export function generateDoublesAssignedSchedule(
 
   if (teams.length < 2) return [];
 
-  const teamList = [...teams];
-  if (teamList.length % 2 !== 0) {
-    teamList.push(['BYE', 'BYE']);
+  return buildRoundRobinWeeks(teams, weeks, options.legs);
+}
+
+/**
+ * Number of weeks one full round-robin cycle takes for the given entry count.
+ */
+export function getRoundRobinRoundCount(entryCount: number): number {
+  if (entryCount < 2) return 0;
+  return entryCount % 2 === 0 ? entryCount - 1 : entryCount;
+}
+
+/**
+ * Circle-method round-robin over `entries`, laid out week by week.
+ * With an explicit `legs` count every other leg swaps sides so return fixtures
+ * are mirrored, and the fixed entry alternates sides each round to keep
+ * home/away balanced within a leg. When `legs` is omitted the cycle repeats
+ * unchanged until the season is full.
+ */
+function buildRoundRobinWeeks(
+  entries: string[][],
+  weeks: number,
+  legs?: number
+): ScheduledFixture[] {
+  if (entries.length < 2) return [];
+
+  const list: Array<string[] | null> = [...entries];
+  if (list.length % 2 !== 0) {
+    list.push(null);
   }
 
-  const count = teamList.length;
+  const count = list.length;
   const totalRounds = count - 1;
   const rounds: ScheduledFixture[] = [];
 
   for (let week = 1; week <= weeks; week++) {
+    const leg = Math.floor((week - 1) / totalRounds);
+    if (legs !== undefined && leg >= legs) break;
+
     const roundIndex = (week - 1) % totalRounds;
-    const rotated = [teamList[0]];
+    const rotated = [list[0]];
 
     for (let i = 1; i < count; i++) {
       const pos = ((i - 1 + roundIndex) % (count - 1)) + 1;
-      rotated.push(teamList[pos]);
+      rotated.push(list[pos]);
     }
 
     for (let i = 0; i < count / 2; i++) {
-      const a = rotated[i];
-      const b = rotated[count - 1 - i];
-      if (a[0] === 'BYE' || b[0] === 'BYE') continue;
+      let a = rotated[i];
+      let b = rotated[count - 1 - i];
+      if (!a || !b) continue;
+      if (legs !== undefined) {
+        if (i === 0 && roundIndex % 2 === 1) [a, b] = [b, a];
+        if (leg % 2 === 1) [a, b] = [b, a];
+      }
       rounds.push({
         weekNumber: week,
         sideA: [...a],
@@ -114,10 +422,316 @@ export function generateDoublesAssignedSchedule(
   return rounds;
 }
 
-function fisherYatesShuffle<T>(arr: T[]): T[] {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
+export type RemainingFixturesPlan = {
+  fixtures: ScheduledFixture[];
+  /** Pairings still owed that found no free week before the season ends. */
+  unplaced: ScheduledFixture[];
+};
+
+/**
+ * Moves fixtures involving a player who is unavailable that week into the
+ * earliest later week where every player is available and not already playing.
+ * Fixtures that cannot be placed before the season ends come back as `unplaced`.
+ */
+export function rebalanceForAvailability(
+  fixtures: ScheduledFixture[],
+  weeks: number,
+  unavailableByWeek?: UnavailableByWeek
+): RemainingFixturesPlan {
+  if (!unavailableByWeek || unavailableByWeek.size === 0) return { fixtures, unplaced: [] };
+
+  const playersOf = (fixture: ScheduledFixture) => [...fixture.sideA, ...fixture.sideB];
+  const canPlay = (fixture: ScheduledFixture, week: number) => {
+    const unavailable = unavailableByWeek.get(week);
+    return !unavailable || playersOf(fixture).every((playerId) => !unavailable.has(playerId));
+  };
+
+  const placed: ScheduledFixture[] = [];
+  let deferred: ScheduledFixture[] = [];
+
+  for (let week = 1; week <= weeks; week++) {
+    const busy = new Set<string>();
+    const deferredThisWeek: ScheduledFixture[] = [];
+
+    for (const fixture of fixtures) {
+      if (fixture.weekNumber !== week) continue;
+      if (canPlay(fixture, week)) {
+        placed.push(fixture);
+        playersOf(fixture).forEach((playerId) => busy.add(playerId));
+      } else {
+        deferredThisWeek.push(fixture);
+      }
+    }
+
+    const stillDeferred: ScheduledFixture[] = [];
+    for (const fixture of deferred) {
+      const players = playersOf(fixture);
+      if (canPlay(fixture, week) && players.every((playerId) => !busy.has(playerId))) {
+        placed.push({
+          ...fixture,
+          weekNumber: week,
+          deferredFromWeek: fixture.deferredFromWeek ?? fixture.weekNumber,
+        });
+        players.forEach((playerId) => busy.add(playerId));
+      } else {
+        stillDeferred.push(fixture);
+      }
+    }
+
+    deferred = [...stillDeferred, ...deferredThisWeek];
   }
-  return arr;
+
+  return { fixtures: placed, unplaced: deferred };
+}
+
+/**
+ * Order-insensitive key for who plays whom, e.g. "a+b|c+d".
+ */
+export function getFixtureKey(fixture: Pick<ScheduledFixture, 'sideA' | 'sideB'>): string {
+  const sideA = [...fixture.sideA].sort().join('+');
+  const sideB = [...fixture.sideB].sort().join('+');
+  return sideA < sideB ? `${sideA}|${sideB}` : `${sideB}|${sideA}`;
+}
+
+/**
+ * Fits a freshly generated season around fixtures that were already played:
+ * each played pairing is struck off once, and the pairings still owed are
+ * packed into the earliest weeks from `fromWeek` where every player is free
+ * and available.
+ */
+export function planRemainingFixtures(
+  planned: ScheduledFixture[],
+  played: ScheduledFixture[],
+  fromWeek: number,
+  weeks: number,
+  unavailableByWeek?: UnavailableByWeek
+): RemainingFixturesPlan {
+  const playedCounts = new Map<string, number>();
+  for (const fixture of played) {
+    const key = getFixtureKey(fixture);
+    playedCounts.set(key, (playedCounts.get(key) || 0) + 1);
+  }
+
+  const owed = [...planned]
+    .sort((a, b) => a.weekNumber - b.weekNumber)
+    .filter((fixture) => {
+      const key = getFixtureKey(fixture);
+      const count = playedCounts.get(key) || 0;
+      if (count === 0) return true;
+      playedCounts.set(key, count - 1);
+      return false;
+    });
+
+  const busyByWeek = new Map<number, Set<string>>();
+  const fixtures: ScheduledFixture[] = [];
+  const unplaced: ScheduledFixture[] = [];
+
+  for (const fixture of owed) {
+    const players = [...fixture.sideA, ...fixture.sideB];
+    let placedWeek: number | null = null;
+    for (let week = fromWeek; week <= weeks; week++) {
+      const busy = busyByWeek.get(week) || new Set<string>();
+      const unavailable = unavailableByWeek?.get(week);
+      if (players.some((playerId) => busy.has(playerId) || unavailable?.has(playerId))) continue;
+      players.forEach((playerId) => busy.add(playerId));
+      busyByWeek.set(week, busy);
+      placedWeek = week;
+      break;
+    }
+
+    if (placedWeek === null) {
+      unplaced.push(fixture);
+    } else {
+      fixtures.push({ weekNumber: placedWeek, sideA: fixture.sideA, sideB: fixture.sideB });
+    }
+  }
+
+  return { fixtures, unplaced };
+}
+
+function countMeetings(fixtures: ScheduledFixture[], userId: string): Map<string, number> {
+  const meetings = new Map<string, number>();
+  for (const fixture of fixtures) {
+    const side = fixture.sideA.includes(userId)
+      ? fixture.sideB
+      : fixture.sideB.includes(userId)
+        ? fixture.sideA
+        : null;
+    side?.forEach((opponentId) => meetings.set(opponentId, (meetings.get(opponentId) || 0) + 1));
+  }
+  return meetings;
+}
+
+function getFreePlayers(
+  fixtures: ScheduledFixture[],
+  memberIds: string[],
+  week: number,
+  unavailableByWeek?: UnavailableByWeek
+): string[] {
+  const busy = new Set(
+    fixtures
+      .filter((fixture) => fixture.weekNumber === week)
+      .flatMap((fixture) => [...fixture.sideA, ...fixture.sideB])
+  );
+  const unavailable = unavailableByWeek?.get(week);
+  return memberIds.filter((memberId) => !busy.has(memberId) && !unavailable?.has(memberId));
+}
+
+/**
+ * Keeps the fixtures of the league's current season. Leagues without seasons
+ * (`currentSeasonId` null) keep every fixture.
+ */
+export function getCurrentSeasonFixtures<T extends { seasonId: string | null }>(
+  fixtures: T[],
+  currentSeasonId: string | null
+): T[] {
+  if (!currentSeasonId) return fixtures;
+  return fixtures.filter((fixture) => fixture.seasonId === currentSeasonId);
+}
+
+/**
+ * Adds a mid-season joiner to the weeks from `fromWeek` by taking over byes:
+ * each week the joiner plays whoever is free, preferring players they have
+ * met least. `teamSize` 2 builds a doubles fixture from three free players.
+ */
+export function planJoinerFixtures(
+  joinerId: string,
+  fixtures: ScheduledFixture[],
+  memberIds: string[],
+  teamSize: 1 | 2,
+  fromWeek: number,
+  weeks: number,
+  unavailableByWeek?: UnavailableByWeek
+): ScheduledFixture[] {
+  const added: ScheduledFixture[] = [];
+  const others = memberIds.filter((memberId) => memberId !== joinerId);
+
+  for (let week = fromWeek; week <= weeks; week++) {
+    if (unavailableByWeek?.get(week)?.has(joinerId)) continue;
+
+    const all = [...fixtures, ...added];
+    const meetings = countMeetings(all, joinerId);
+    const free = getFreePlayers(all, others, week, unavailableByWeek).sort(
+      (a, b) => (meetings.get(a) || 0) - (meetings.get(b) || 0)
+    );
+    if (free.length < teamSize * 2 - 1) continue;
+
+    const picked = free.slice(0, teamSize * 2 - 1);
+    added.push({
+      weekNumber: week,
+      sideA: [joinerId, ...picked.slice(teamSize)],
+      sideB: picked.slice(0, teamSize),
+    });
+  }
+
+  return added;
+}
+
+export type DepartureFixture = ScheduledFixture & {
+  id: string;
+};
+
+export type DeparturePlan = {
+  /** Fixtures handed to a player who was free that week. */
+  moved: Array<{ id: string; replacementId: string }>;
+  cancelled: string[];
+};
+
+/**
+ * Handles a departed member's unplayed fixtures: each one moves to a player
+ * who has a bye that week and hasn't already met the remaining side, or is
+ * cancelled when nobody fits. `otherFixtures` are the rest of the season,
+ * used to see who is busy and who has already met.
+ */
+export function planDepartureFixtures(
+  departedId: string,
+  openFixtures: DepartureFixture[],
+  otherFixtures: ScheduledFixture[],
+  memberIds: string[],
+  unavailableByWeek?: UnavailableByWeek
+): DeparturePlan {
+  const plan: DeparturePlan = { moved: [], cancelled: [] };
+  const remaining = memberIds.filter((memberId) => memberId !== departedId);
+  const current: ScheduledFixture[] = [...openFixtures, ...otherFixtures];
+
+  const affected = openFixtures
+    .map((fixture, index) => ({ fixture, index }))
+    .filter(({ fixture }) => [...fixture.sideA, ...fixture.sideB].includes(departedId))
+    .sort((a, b) => a.fixture.weekNumber - b.fixture.weekNumber);
+
+  for (const { fixture, index } of affected) {
+    const opponents = fixture.sideA.includes(departedId) ? fixture.sideB : fixture.sideA;
+    const replacementId = getFreePlayers(
+      current,
+      remaining,
+      fixture.weekNumber,
+      unavailableByWeek
+    ).find((candidateId) =>
+      opponents.every((opponentId) => !countMeetings(current, opponentId).has(candidateId))
+    );
+
+    if (!replacementId) {
+      plan.cancelled.push(fixture.id);
+      current[index] = { weekNumber: fixture.weekNumber, sideA: [], sideB: [] };
+      continue;
+    }
+
+    const swap = (side: string[]) =>
+      side.map((playerId) => (playerId === departedId ? replacementId : playerId));
+    current[index] = { ...fixture, sideA: swap(fixture.sideA), sideB: swap(fixture.sideB) };
+    plan.moved.push({ id: fixture.id, replacementId });
+  }
+
+  return plan;
+}
+
+export type ScheduleDiff = {
+  added: ScheduledFixture[];
+  removed: ScheduledFixture[];
+  moved: Array<{ sideA: string[]; sideB: string[]; fromWeek: number; toWeek: number }>;
+  unchanged: number;
+};
+
+/**
+ * Compares the fixtures being replaced with their replacements, matching
+ * pairings so a fixture that only changed week shows up as moved.
+ */
+export function diffScheduledFixtures(
+  before: ScheduledFixture[],
+  after: ScheduledFixture[]
+): ScheduleDiff {
+  const remaining = [...before];
+  const diff: ScheduleDiff = { added: [], removed: [], moved: [], unchanged: 0 };
+
+  const sameKey = (a: ScheduledFixture, b: ScheduledFixture) =>
+    getFixtureKey(a) === getFixtureKey(b);
+
+  // Exact matches first so a pairing played twice isn't reported as two moves
+  const unmatched = after.filter((fixture) => {
+    const index = remaining.findIndex(
+      (candidate) => sameKey(candidate, fixture) && candidate.weekNumber === fixture.weekNumber
+    );
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    diff.unchanged += 1;
+    return false;
+  });
+
+  for (const fixture of unmatched) {
+    const index = remaining.findIndex((candidate) => sameKey(candidate, fixture));
+    if (index === -1) {
+      diff.added.push(fixture);
+      continue;
+    }
+    diff.moved.push({
+      sideA: fixture.sideA,
+      sideB: fixture.sideB,
+      fromWeek: remaining[index].weekNumber,
+      toWeek: fixture.weekNumber,
+    });
+    remaining.splice(index, 1);
+  }
+
+  diff.removed = remaining;
+  return diff;
 }
@@ -0,0 +1,262 @@
+import { supabaseAdmin } from '../utils/supabase';
+import { getNestedArray, toRulesObject, type RulesObject } from '../utils/rules';
+import { type LeagueRow } from './league.service';
+import { getLadderAcceptanceHours, getLadderChallengeRange } from './league-rules.service';
+import {
+  buildLadderOrder,
+  buildLadderStandings,
+  getLadderStartingOrder,
+  type LadderResult,
+  type LadderRow,
+} from './ladder.service';
+
+export type LadderChallenge = {
+  fixtureId: string;
+  challengerId: string;
+  defenderId: string;
+  /** pending → accepted, or declined / expired (forfeits), then the fixture is finalized. */
+  challengeStatus: string;
+  fixtureStatus: string;
+  acceptBy: string | null;
+  createdAt: string;
+};
+
+export type LadderPayload = {
+  format: 'ladder';
+  ladder: LadderRow[];
+  challengeRange: number;
+  acceptanceHours: number;
+  openChallenges: LadderChallenge[];
+};
+
+export type LoadedLadder = LadderPayload & {
+  /** User ids from the top of the ladder down. */
+  order: string[];
+};
+
+export class LadderError extends Error {
+  statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+type ChallengeFixtureRow = {
+  id: string;
+  status: string;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+};
+
+function toChallenge(fixture: ChallengeFixtureRow): LadderChallenge | null {
+  const metadata = fixture.metadata || {};
+  if (typeof metadata.challenger_id !== 'string' || typeof metadata.defender_id !== 'string') {
+    return null;
+  }
+  return {
+    fixtureId: fixture.id,
+    challengerId: metadata.challenger_id,
+    defenderId: metadata.defender_id,
+    challengeStatus:
+      typeof metadata.challenge_status === 'string' ? metadata.challenge_status : 'pending',
+    fixtureStatus: fixture.status,
+    acceptBy: typeof metadata.accept_by === 'string' ? metadata.accept_by : null,
+    createdAt: fixture.created_at,
+  };
+}
+
+export function isOpenChallenge(challenge: LadderChallenge): boolean {
+  return challenge.fixtureStatus !== 'finalized' && challenge.fixtureStatus !== 'cancelled';
+}
+
+/**
+ * Closes a pending challenge as a forfeit win for the challenger, used when
+ * the defender declines or the acceptance deadline passes.
+ */
+export async function forfeitLadderChallenge(
+  fixtureId: string,
+  metadata: Record<string, unknown>,
+  reason: 'declined' | 'expired'
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('league_fixtures')
+    .update({
+      status: 'finalized',
+      metadata: {
+        ...metadata,
+        challenge_status: reason,
+        final_result: { winner: 'A', forfeit: true },
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', fixtureId);
+
+  if (error) {
+    throw new LadderError(500, error.message);
+  }
+}
+
+async function loadChallengeFixtures(leagueId: string): Promise<ChallengeFixtureRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('league_fixtures')
+    .select('id, status, metadata, created_at')
+    .eq('league_id', leagueId)
+    .not('metadata->ladder_challenge', 'is', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new LadderError(500, error.message);
+  }
+  return (data || []) as ChallengeFixtureRow[];
+}
+
+function isExpiredChallenge(fixture: ChallengeFixtureRow, now: number): boolean {
+  const challenge = toChallenge(fixture);
+  return (
+    !!challenge &&
+    challenge.challengeStatus === 'pending' &&
+    isOpenChallenge(challenge) &&
+    !!challenge.acceptBy &&
+    new Date(challenge.acceptBy).getTime() < now
+  );
+}
+
+/**
+ * Records every pending challenge past its acceptance deadline as a forfeit.
+ * Run before acting on a ladder; reads already treat them as forfeited.
+ */
+export async function expireLadderChallenges(leagueId: string): Promise<number> {
+  const now = Date.now();
+  const expired = (await loadChallengeFixtures(leagueId)).filter((fixture) =>
+    isExpiredChallenge(fixture, now)
+  );
+  for (const fixture of expired) {
+    await forfeitLadderChallenge(fixture.id, fixture.metadata || {}, 'expired');
+  }
+  return expired.length;
+}
+
+async function loadLadderMembers(
+  leagueId: string
+): Promise<Array<{ user_id: string; name: string | null; avatar_url: string | null }>> {
+  const { data: memberRows, error: memberError } = await supabaseAdmin
+    .from('league_members')
+    .select('user_id')
+    .eq('league_id', leagueId);
+
+  if (memberError) {
+    throw new LadderError(500, memberError.message);
+  }
+
+  const memberIds = (memberRows || []).map((row) => row.user_id).filter(Boolean);
+  const { data: profiles, error: profileError } = memberIds.length
+    ? await supabaseAdmin.from('profiles').select('id, name, avatar_url').in('id', memberIds)
+    : { data: [] as Array<{ id: string; name: string | null; avatar_url: string | null }>, error: null };
+
+  if (profileError) {
+    throw new LadderError(500, profileError.message);
+  }
+
+  const profileById = new Map((profiles || []).map((profile) => [profile.id, profile]));
+  return memberIds.map((memberId) => ({
+    user_id: memberId,
+    name: profileById.get(memberId)?.name || null,
+    avatar_url: profileById.get(memberId)?.avatar_url || null,
+  }));
+}
+
+/**
+ * Puts a new member at the bottom of the ladder by appending them to
+ * `ladder.initial_order`. Earlier members are written out first, so results
+ * replayed later can never lift the newcomer above them.
+ */
+export async function addLadderMember(league: LeagueRow, userId: string): Promise<void> {
+  const rules = toRulesObject(league.rules_jsonb);
+  const members = (await loadLadderMembers(league.id)).filter(
+    (member) => member.user_id !== userId
+  );
+  const startingOrder = getLadderStartingOrder(
+    getNestedArray(rules, ['ladder', 'initial_order']),
+    members
+  );
+  const nextRules: RulesObject = {
+    ...rules,
+    ladder: {
+      ...toRulesObject(rules.ladder),
+      initial_order: [...startingOrder, userId],
+    },
+  };
+
+  const { error } = await supabaseAdmin
+    .from('leagues')
+    .update({ rules_jsonb: nextRules })
+    .eq('id', league.id);
+
+  if (error) {
+    throw new LadderError(500, error.message);
+  }
+}
+
+/**
+ * Loads a ladder league's positions, challenge record and open challenges.
+ * Pending challenges past their acceptance deadline count as forfeits; this
+ * only reads, so call `expireLadderChallenges` first to record them. The
+ * starting order is `ladder.initial_order`, where joiners are appended; members
+ * not listed start at the bottom in name order.
+ */
+export async function loadLadder(league: LeagueRow): Promise<LoadedLadder> {
+  const rules = toRulesObject(league.rules_jsonb);
+  const members = await loadLadderMembers(league.id);
+
+  const now = Date.now();
+  const fixtures = (await loadChallengeFixtures(league.id)).map((fixture) =>
+    isExpiredChallenge(fixture, now)
+      ? {
+          ...fixture,
+          status: 'finalized',
+          metadata: {
+            ...fixture.metadata,
+            challenge_status: 'expired',
+            final_result: { winner: 'A', forfeit: true },
+          },
+        }
+      : fixture
+  );
+
+  const challenges = fixtures
+    .map(toChallenge)
+    .filter((challenge): challenge is LadderChallenge => challenge !== null);
+  const results: LadderResult[] = [];
+  for (const fixture of fixtures) {
+    const challenge = toChallenge(fixture);
+    const finalResult = fixture.metadata?.final_result as Record<string, unknown> | undefined;
+    if (!challenge || fixture.status !== 'finalized') continue;
+    if (finalResult?.winner !== 'A' && finalResult?.winner !== 'B') continue;
+    results.push({
+      challengerId: challenge.challengerId,
+      defenderId: challenge.defenderId,
+      winner: finalResult.winner,
+      forfeit: finalResult.forfeit === true,
+    });
+  }
+
+  const order = buildLadderOrder(
+    getLadderStartingOrder(getNestedArray(rules, ['ladder', 'initial_order']), members),
+    results
+  );
+  const openChallenges = challenges.filter(isOpenChallenge);
+  const inChallenge = new Set(
+    openChallenges.flatMap((challenge) => [challenge.challengerId, challenge.defenderId])
+  );
+
+  return {
+    format: 'ladder',
+    order,
+    ladder: buildLadderStandings(order, results, members, inChallenge),
+    challengeRange: getLadderChallengeRange(rules),
+    acceptanceHours: getLadderAcceptanceHours(rules),
+    openChallenges,
+  };
+}
@@ -0,0 +1,131 @@
+import { type RankingMember } from './standings.service';
+
+/** A finalized ladder challenge. The challenger is always side A. */
+export type LadderResult = {
+  challengerId: string;
+  defenderId: string;
+  winner: 'A' | 'B';
+  /** Set when the defender declined or let the acceptance deadline pass. */
+  forfeit?: boolean;
+};
+
+export type LadderRow = {
+  position: number;
+  user_id: string;
+  name: string | null;
+  avatar_url: string | null;
+  played: number;
+  wins: number;
+  losses: number;
+  /** Challenges this player won from below. */
+  climbs: number;
+  /** Challenges this player held off from above. */
+  defenses: number;
+  /** Whether a challenge involving this player is still open. */
+  in_challenge: boolean;
+};
+
+/**
+ * The ladder before any challenge: `configured` (`ladder.initial_order`)
+ * filtered to current members, then everyone not listed in name order.
+ */
+export function getLadderStartingOrder(
+  configured: unknown[] | null,
+  members: RankingMember[]
+): string[] {
+  const memberIds = new Set(members.map((member) => member.user_id));
+  const listed = [
+    ...new Set(
+      (configured || []).filter(
+        (entry): entry is string => typeof entry === 'string' && memberIds.has(entry)
+      )
+    ),
+  ];
+  const unlisted = members
+    .filter((member) => !listed.includes(member.user_id))
+    .sort((a, b) => (a.name || a.user_id).localeCompare(b.name || b.user_id))
+    .map((member) => member.user_id);
+  return [...listed, ...unlisted];
+}
+
+/**
+ * Replays finalized challenges over the starting order: a challenger who wins
+ * swaps places with the defender. Results involving players no longer in the
+ * order are skipped.
+ */
+export function buildLadderOrder(initialOrder: string[], results: LadderResult[]): string[] {
+  const order = [...new Set(initialOrder)];
+  for (const result of results) {
+    if (result.winner !== 'A') continue;
+    const challengerIndex = order.indexOf(result.challengerId);
+    const defenderIndex = order.indexOf(result.defenderId);
+    if (challengerIndex === -1 || defenderIndex === -1) continue;
+    if (challengerIndex < defenderIndex) continue;
+    order[challengerIndex] = result.defenderId;
+    order[defenderIndex] = result.challengerId;
+  }
+  return order;
+}
+
+/**
+ * Why `challengerId` may not challenge `defenderId`, or null when they can:
+ * the defender must sit between 1 and `range` places above the challenger.
+ */
+export function getChallengeError(
+  order: string[],
+  challengerId: string,
+  defenderId: string,
+  range: number
+): string | null {
+  const challengerIndex = order.indexOf(challengerId);
+  const defenderIndex = order.indexOf(defenderId);
+  if (challengerIndex === -1) return 'You are not on this ladder';
+  if (defenderIndex === -1) return 'That player is not on this ladder';
+  if (defenderIndex >= challengerIndex) return 'You can only challenge players above you';
+  if (challengerIndex - defenderIndex > range) {
+    return `You can only challenge up to ${range} places above you`;
+  }
+  return null;
+}
+
+export function buildLadderStandings(
+  order: string[],
+  results: LadderResult[],
+  members: RankingMember[],
+  openChallengeUserIds: Set<string>
+): LadderRow[] {
+  const memberById = new Map(members.map((member) => [member.user_id, member]));
+  const rows = order.map<LadderRow>((userId, index) => ({
+    position: index + 1,
+    user_id: userId,
+    name: memberById.get(userId)?.name ?? null,
+    avatar_url: memberById.get(userId)?.avatar_url ?? null,
+    played: 0,
+    wins: 0,
+    losses: 0,
+    climbs: 0,
+    defenses: 0,
+    in_challenge: openChallengeUserIds.has(userId),
+  }));
+  const rowById = new Map(rows.map((row) => [row.user_id, row]));
+
+  for (const result of results) {
+    const challenger = rowById.get(result.challengerId);
+    const defender = rowById.get(result.defenderId);
+    const challengerWon = result.winner === 'A';
+    if (challenger) {
+      challenger.played += 1;
+      challenger.wins += challengerWon ? 1 : 0;
+      challenger.losses += challengerWon ? 0 : 1;
+      challenger.climbs += challengerWon ? 1 : 0;
+    }
+    if (defender) {
+      defender.played += 1;
+      defender.wins += challengerWon ? 0 : 1;
+      defender.losses += challengerWon ? 1 : 0;
+      defender.defenses += challengerWon ? 0 : 1;
+    }
+  }
+
+  return rows;
+}
@@ -1,5 +1,12 @@
 import { type LeagueRow } from './league.service';
-import { getNestedArray, getNestedString, type RulesObject } from '../utils/rules';
+import { isValidTimeZone } from '../utils/league-dates';
+import {
+  getNestedArray,
+  getNestedNumber,
+  getNestedString,
+  type RulesObject,
+} from '../utils/rules';
+import { TIEBREAKERS, type MatchPoints, type Tiebreaker } from './standings.service';
 
 export function isAssignedDoublesLeague(league: LeagueRow, rules: RulesObject): boolean {
   if (league.scoring_format !== 'doubles') return false;
@@ -31,3 +38,282 @@ export function getConfiguredFixedPairs(
 
   return normalized;
 }
+
+/**
+ * Resolves `schedule.format` into a round-robin leg count. Returns null when no
+ * format is configured, and NaN when `n_legs` has no valid `schedule.legs`.
+ */
+export function getRoundRobinLegs(rules: RulesObject): number | null {
+  const format = getNestedString(rules, ['schedule', 'format']);
+  if (format === 'single_rr') return 1;
+  if (format === 'double_rr') return 2;
+  if (format === 'n_legs') {
+    const legs = getNestedNumber(rules, ['schedule', 'legs']);
+    return legs !== null && Number.isInteger(legs) && legs >= 1 ? legs : Number.NaN;
+  }
+  return null;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export type CourtConfig = {
+  courtId: string;
+  /** Matches the court can host at the same time. */
+  surfaces: number;
+};
+
+/**
+ * Reads `schedule.courts` entries shaped `{ court_id, surfaces? }`.
+ * Surfaces default to 1; duplicate and malformed entries are skipped.
+ */
+export function getConfiguredCourts(rules: RulesObject): CourtConfig[] {
+  const courts = getNestedArray(rules, ['schedule', 'courts']);
+  if (!courts) return [];
+
+  const seen = new Set<string>();
+  const normalized: CourtConfig[] = [];
+  for (const entry of courts) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue;
+    const record = entry as Record<string, unknown>;
+    const courtId = typeof record.court_id === 'string' ? record.court_id : '';
+    const surfaces = record.surfaces === undefined ? 1 : record.surfaces;
+    if (!courtId || seen.has(courtId)) continue;
+    if (typeof surfaces !== 'number' || !Number.isInteger(surfaces) || surfaces < 1) continue;
+    seen.add(courtId);
+    normalized.push({ courtId, surfaces });
+  }
+  return normalized;
+}
+
+/**
+ * Reads `schedule.time_slots`, a list of local "HH:MM" start times for a match
+ * night, sorted and de-duplicated.
+ */
+export function getConfiguredTimeSlots(rules: RulesObject): string[] {
+  const slots = getNestedArray(rules, ['schedule', 'time_slots']);
+  if (!slots) return [];
+
+  const valid = slots.filter(
+    (slot): slot is string => typeof slot === 'string' && TIME_PATTERN.test(slot)
+  );
+  return [...new Set(valid)].sort();
+}
+
+export type MatchDay = {
+  /** 0 = Sunday through 6 = Saturday. */
+  weekday: number;
+  /** Local "HH:MM" start; null falls back to `schedule.starts_at_local`. */
+  startTime: string | null;
+};
+
+const WEEKDAY_NAMES = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+function parseWeekday(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value <= 6 ? value : null;
+  }
+  if (typeof value !== 'string' || value.trim().length < 3) return null;
+  const name = value.trim().toLowerCase();
+  const index = WEEKDAY_NAMES.findIndex((weekday) => weekday.startsWith(name));
+  return index === -1 ? null : index;
+}
+
+/**
+ * Reads `schedule.match_days` entries shaped `{ day, start_time? }`, where
+ * `day` is a weekday name ("tue", "thursday") or 0-6 from Sunday. Later
+ * entries for a day already listed are skipped.
+ */
+export function getConfiguredMatchDays(rules: RulesObject): MatchDay[] {
+  const days = getNestedArray(rules, ['schedule', 'match_days']);
+  if (!days) return [];
+
+  const normalized: MatchDay[] = [];
+  for (const entry of days) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue;
+    const record = entry as Record<string, unknown>;
+    const weekday = parseWeekday(record.day);
+    if (weekday === null || normalized.some((day) => day.weekday === weekday)) continue;
+    const startTime =
+      typeof record.start_time === 'string' && TIME_PATTERN.test(record.start_time)
+        ? record.start_time
+        : null;
+    normalized.push({ weekday, startTime });
+  }
+  return normalized.sort((a, b) => a.weekday - b.weekday);
+}
+
+export type DepartedResultsMode = 'keep' | 'hide' | 'void';
+
+/**
+ * How standings treat results of players who left mid-season
+ * (`standings.departed_results`): `keep` leaves everything as played, `hide`
+ * drops their row but keeps opponents' results, `void` removes their matches.
+ */
+export function getDepartedResultsMode(rules: RulesObject): DepartedResultsMode {
+  const mode = getNestedString(rules, ['standings', 'departed_results']);
+  return mode === 'hide' || mode === 'void' ? mode : 'keep';
+}
+
+/**
+ * Points per result from `standings.points` (`win`, `draw`, `loss`,
+ * `close_loss_bonus`, `close_loss_margin`). Only keys that are set come back;
+ * the rest keep the scoring format's defaults.
+ */
+export function getStandingsPoints(rules: RulesObject): Partial<MatchPoints> {
+  const read = (key: string) => getNestedNumber(rules, ['standings', 'points', key]);
+  const points: Partial<MatchPoints> = {};
+  const win = read('win');
+  const draw = read('draw');
+  const loss = read('loss');
+  const closeLossBonus = read('close_loss_bonus');
+  const closeLossMargin = read('close_loss_margin');
+  if (win !== null) points.win = win;
+  if (draw !== null) points.draw = draw;
+  if (loss !== null) points.loss = loss;
+  if (closeLossBonus !== null && closeLossBonus >= 0) points.closeLossBonus = closeLossBonus;
+  if (closeLossMargin !== null && Number.isInteger(closeLossMargin) && closeLossMargin >= 1) {
+    points.closeLossMargin = closeLossMargin;
+  }
+  return points;
+}
+
+/**
+ * Ordered ranking rules from `standings.tiebreakers`, e.g.
+ * `['points', 'head_to_head', 'set_difference']`. Unknown or repeated entries
+ * are dropped; null when none are configured.
+ */
+export function getStandingsTiebreakers(rules: RulesObject): Tiebreaker[] | null {
+  const configured = getNestedArray(rules, ['standings', 'tiebreakers']);
+  if (!configured) return null;
+
+  const tiebreakers: Tiebreaker[] = [];
+  for (const entry of configured) {
+    const tiebreaker = TIEBREAKERS.find((candidate) => candidate === entry);
+    if (tiebreaker && !tiebreakers.includes(tiebreaker)) tiebreakers.push(tiebreaker);
+  }
+  return tiebreakers.length > 0 ? tiebreakers : null;
+}
+
+const MAX_BLACKOUT_RANGE_DAYS = 366;
+
+function isIsoDate(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(new Date(`${value}T00:00:00.000Z`).getTime())
+  );
+}
+
+function expandDateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${from}T00:00:00.000Z`);
+  const end = new Date(`${to}T00:00:00.000Z`);
+  while (cursor <= end && dates.length < MAX_BLACKOUT_RANGE_DAYS) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Days with no league play, from `schedule.blackout_dates` and the league's
+ * `schedule.holidays` list. Entries are "YYYY-MM-DD" strings or objects with
+ * `date`, or `from`/`to` for an inclusive range. Returns sorted unique dates.
+ */
+export function getBlackoutDates(rules: RulesObject): string[] {
+  const entries = [
+    ...(getNestedArray(rules, ['schedule', 'blackout_dates']) || []),
+    ...(getNestedArray(rules, ['schedule', 'holidays']) || []),
+  ];
+
+  const dates = new Set<string>();
+  for (const entry of entries) {
+    if (isIsoDate(entry)) {
+      dates.add(entry);
+      continue;
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue;
+    const record = entry as Record<string, unknown>;
+    if (isIsoDate(record.date)) {
+      dates.add(record.date);
+    } else if (isIsoDate(record.from)) {
+      const to = isIsoDate(record.to) ? record.to : record.from;
+      expandDateRange(record.from, to).forEach((date) => dates.add(date));
+    }
+  }
+  return [...dates].sort();
+}
+
+/** IANA zone from `schedule.timezone` that local start times are in; UTC when unset or unknown. */
+export function getLeagueTimeZone(rules: RulesObject): string {
+  const timeZone = getNestedString(rules, ['schedule', 'timezone']);
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+/** Places above themselves a ladder player may challenge (`ladder.challenge_range`, default 3). */
+export function getLadderChallengeRange(rules: RulesObject): number {
+  const range = getNestedNumber(rules, ['ladder', 'challenge_range']);
+  return range !== null && Number.isInteger(range) && range >= 1 ? range : 3;
+}
+
+/** Hours a defender has to accept a challenge (`ladder.acceptance_hours`, default 72). */
+export function getLadderAcceptanceHours(rules: RulesObject): number {
+  const hours = getNestedNumber(rules, ['ladder', 'acceptance_hours']);
+  return hours !== null && hours > 0 ? hours : 72;
+}
+
+/**
+ * Box league divisions from `divisions.assignments`, top division first. Each
+ * entry is a list of member ids; unknown or repeated ids are dropped and
+ * members not assigned anywhere join the bottom division. A division left
+ * with no current members stays in place as an empty list, so division
+ * numbers keep matching the ones stored on fixtures. Empty when no
+ * divisions are configured.
+ */
+export function getConfiguredDivisions(
+  rules: RulesObject,
+  memberIds: readonly string[]
+): string[][] {
+  const assignments = getNestedArray(rules, ['divisions', 'assignments']);
+  if (!assignments) return [];
+
+  const validMemberIds = new Set(memberIds);
+  const used = new Set<string>();
+  const divisions: string[][] = [];
+  for (const entry of assignments) {
+    const division = (Array.isArray(entry) ? entry : []).filter(
+      (userId): userId is string =>
+        typeof userId === 'string' && validMemberIds.has(userId) && !used.has(userId)
+    );
+    division.forEach((userId) => used.add(userId));
+    divisions.push(division);
+  }
+  if (used.size === 0) return [];
+
+  const unassigned = memberIds.filter((userId) => !used.has(userId));
+  divisions[divisions.length - 1].push(...unassigned);
+  return divisions;
+}
+
+/**
+ * Players moved between neighbouring divisions when a new season starts:
+ * `divisions.promotion_count` and `divisions.relegation_count`, default 1 each.
+ */
+export function getDivisionMovementCounts(rules: RulesObject): {
+  promotion: number;
+  relegation: number;
+} {
+  const read = (key: string) => {
+    const value = getNestedNumber(rules, ['divisions', key]);
+    return value !== null && Number.isInteger(value) && value >= 0 ? value : 1;
+  };
+  return { promotion: read('promotion_count'), relegation: read('relegation_count') };
+}
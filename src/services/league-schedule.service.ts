@@ -0,0 +1,918 @@
+import { supabaseAdmin } from '../utils/supabase';
+import { getNestedNumber, getNestedString, toRulesObject, type RulesObject } from '../utils/rules';
+import {
+  dateTimeIso,
+  matchDayDates,
+  sessionDeadlineIso,
+  toLocalIso,
+  weekEndIso,
+  weekStartDate,
+} from '../utils/league-dates';
+import { createSeededRandom, generateSeed } from '../utils/random';
+import { type LeagueRow } from './league.service';
+import {
+  generateDoublesAssignedSchedule,
+  generateDoublesRotationSchedule,
+  generateSinglesSchedule,
+  getRoundRobinRoundCount,
+  planRemainingFixtures,
+  rebalanceForAvailability,
+  type DoublesFairnessReport,
+  type ScheduledFixture,
+  type UnavailableByWeek,
+} from './fixture-schedule.service';
+import {
+  generateDoubleEliminationSchedule,
+  generatePoolPlaySchedule,
+  generateSingleEliminationSchedule,
+  getBracketRoundLabel,
+  getPoolLabel,
+  getTotalRounds,
+  type TournamentFixture,
+} from './tournament-schedule.service';
+import { createTournamentBracket } from './tournament-bracket.service';
+import { withRollback, type CreatedRows } from './fixture-rollback.service';
+import {
+  getBlackoutDates,
+  getConfiguredCourts,
+  getConfiguredDivisions,
+  getConfiguredFixedPairs,
+  getConfiguredMatchDays,
+  getConfiguredTimeSlots,
+  getLeagueTimeZone,
+  getRoundRobinLegs,
+  type CourtConfig,
+  type MatchDay,
+} from './league-rules.service';
+import {
+  allocateCourtSlots,
+  spreadAcrossMatchNights,
+  type SlotAssignment,
+} from './court-allocation.service';
+
+/** Settings a schedule request may pass in the body on top of the league rules. */
+export type ScheduleRequest = {
+  courtId: string | null;
+  seeding: 'random' | 'manual';
+  manualOrder?: string[];
+  bracketType?: unknown;
+  grandFinalReset: boolean;
+  format?: unknown;
+  poolCount?: unknown;
+  advancePerPool?: unknown;
+  /** Rule sections merged over `rules_jsonb`, used to try settings before saving them. */
+  rulesOverride?: RulesObject;
+  /** Seeds every random choice; the same seed and roster reproduce the same draw. */
+  seed: string;
+  /** Regeneration: pairings already played or in progress, and the first week to refill. */
+  preserve?: {
+    played: ScheduledFixture[];
+    fromWeek: number;
+  };
+};
+
+export type PlannedFixture = {
+  weekNumber: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  fixtureType: 'league_match' | 'time_trial_session';
+  courtId: string | null;
+  sideA: string[];
+  sideB: string[];
+  metadata: Record<string, unknown>;
+};
+
+export type PlannedRunningSession = {
+  weekNumber: number;
+  sessionType: string;
+  startsAt: string | null;
+  submissionDeadline: string | null;
+  comparisonMode: string;
+};
+
+export type SchedulePlan = {
+  memberIds: string[];
+  /** Weekly fixtures; empty for brackets, which are created via createTournamentBracket. */
+  fixtures: PlannedFixture[];
+  sessions: PlannedRunningSession[];
+  bracket: {
+    fixtures: TournamentFixture[];
+    metadata: Record<string, unknown>;
+  } | null;
+  /** Settings echoed back in generate and preview responses. */
+  summary: Record<string, unknown>;
+  /** IANA zone the planned start times are shown in. */
+  timeZone: string;
+  /** Round-robin season calendar, so previews list weeks that have no fixtures. */
+  calendar?: ScheduleCalendar;
+};
+
+export type PersistedSchedule = {
+  createdFixtures: number;
+  createdParticipants: number;
+  createdSessions: number;
+};
+
+export type SchedulePreviewWeek = {
+  weekNumber: number;
+  startsAt: string | null;
+  startsAtLocal: string | null;
+  fixtures: Array<{
+    sideA: string[];
+    sideB: string[];
+    startsAt: string | null;
+    startsAtLocal: string | null;
+    courtId: string | null;
+    label: string | null;
+  }>;
+  byes: string[];
+};
+
+export class SchedulePlanError extends Error {
+  statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+export function parseSeed(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim() !== '') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+export function parseScheduleRequest(
+  body: Record<string, unknown> | undefined,
+  league: LeagueRow
+): ScheduleRequest {
+  const rulesOverride = body?.rules;
+  return {
+    courtId:
+      typeof body?.court_id === 'string' && body.court_id
+        ? body.court_id
+        : league.default_court_id || null,
+    seeding: body?.seeding === 'manual' ? 'manual' : 'random',
+    manualOrder: Array.isArray(body?.manual_order) ? (body.manual_order as string[]) : undefined,
+    bracketType: body?.bracket_type,
+    grandFinalReset: body?.grand_final_reset !== false,
+    format: body?.format,
+    poolCount: body?.pool_count,
+    advancePerPool: body?.advance_per_pool,
+    seed: parseSeed(body?.seed) ?? generateSeed(),
+    rulesOverride:
+      rulesOverride && typeof rulesOverride === 'object' && !Array.isArray(rulesOverride)
+        ? (rulesOverride as RulesObject)
+        : undefined,
+  };
+}
+
+function mergeRules(rules: RulesObject, override: RulesObject | undefined): RulesObject {
+  if (!override) return rules;
+  const merged: RulesObject = { ...rules };
+  for (const [section, value] of Object.entries(override)) {
+    const current = merged[section];
+    merged[section] =
+      value && typeof value === 'object' && !Array.isArray(value) &&
+      current && typeof current === 'object' && !Array.isArray(current)
+        ? { ...current, ...value }
+        : value;
+  }
+  return merged;
+}
+
+export type ScheduleCalendar = {
+  seasonWeeks: number;
+  startDate: string | null;
+  startTime: string | null;
+  /** Dates weeks skip over; see getBlackoutDates. */
+  blackoutDates: string[];
+  /** IANA zone the start date and times are local to. */
+  timeZone: string;
+  /** Nights each week is played on; empty means one night on the week's date. */
+  matchDays: MatchDay[];
+};
+
+export type MatchNight = {
+  date: string | null;
+  startTime: string | null;
+  /** Configured weekday, or null when the league has no match days. */
+  weekday: number | null;
+};
+
+export function getScheduleCalendar(league: LeagueRow, rules: RulesObject): ScheduleCalendar {
+  const ruleWeeks = getNestedNumber(rules, ['schedule', 'season_weeks']);
+  return {
+    seasonWeeks: ruleWeeks || league.season_weeks || 10,
+    startDate: getNestedString(rules, ['schedule', 'starts_on']) || league.start_date,
+    startTime: getNestedString(rules, ['schedule', 'starts_at_local']),
+    blackoutDates: getBlackoutDates(rules),
+    timeZone: getLeagueTimeZone(rules),
+    matchDays: getConfiguredMatchDays(rules),
+  };
+}
+
+/**
+ * A week's match nights in date order: one per configured match day not on a
+ * blackout date, or just the week's date when no match days are set.
+ */
+export function getWeekMatchNights(calendar: ScheduleCalendar, weekNumber: number): MatchNight[] {
+  const { startDate, startTime, blackoutDates, matchDays } = calendar;
+  const weekdays = matchDays.map((day) => day.weekday);
+  const weekDate = weekStartDate(startDate, weekNumber, blackoutDates, weekdays);
+
+  if (matchDays.length === 0) return [{ date: weekDate, startTime, weekday: null }];
+  if (!weekDate) {
+    return matchDays.map((day) => ({
+      date: null,
+      startTime: day.startTime ?? startTime,
+      weekday: day.weekday,
+    }));
+  }
+
+  return matchDayDates(weekDate, weekdays)
+    .filter((date) => !blackoutDates.includes(date))
+    .map((date) => {
+      const day = matchDays.find(
+        (entry) => entry.weekday === new Date(`${date}T00:00:00.000Z`).getUTCDay()
+      );
+      return { date, startTime: day?.startTime ?? startTime, weekday: day?.weekday ?? null };
+    });
+}
+
+/** Start of a week's first match night, as used for sessions and single-night rounds. */
+export function getWeekStartIso(calendar: ScheduleCalendar, weekNumber: number): string | null {
+  const [night] = getWeekMatchNights(calendar, weekNumber);
+  return dateTimeIso(night.date, night.startTime, calendar.timeZone);
+}
+
+export type NightPlacement = {
+  startsAt: string | null;
+  weekday: number | null;
+  assignment: SlotAssignment | null;
+};
+
+/**
+ * Spreads fixtures over their week's match nights, then, with courts
+ * configured, gives each a court surface and time slot on its night.
+ */
+export function placeOnMatchNights(
+  calendar: ScheduleCalendar,
+  fixtures: ScheduledFixture[],
+  courts: CourtConfig[],
+  configuredSlots: string[]
+): NightPlacement[] {
+  const nightsByWeek = new Map<number, MatchNight[]>();
+  for (const { weekNumber } of fixtures) {
+    if (!nightsByWeek.has(weekNumber)) {
+      nightsByWeek.set(weekNumber, getWeekMatchNights(calendar, weekNumber));
+    }
+  }
+
+  const nightIndexes = spreadAcrossMatchNights(
+    fixtures,
+    new Map([...nightsByWeek].map(([week, nights]) => [week, nights.length]))
+  );
+  const nightOf = (index: number) =>
+    (nightsByWeek.get(fixtures[index].weekNumber) || [])[nightIndexes[index]];
+
+  const assignments: Array<SlotAssignment | null> = fixtures.map(() => null);
+  if (courts.length > 0) {
+    const groups = new Map<string, number[]>();
+    fixtures.forEach((fixture, index) => {
+      const key = `${fixture.weekNumber}|${nightIndexes[index]}`;
+      groups.set(key, [...(groups.get(key) || []), index]);
+    });
+    for (const indexes of groups.values()) {
+      const night = nightOf(indexes[0]);
+      const slots = configuredSlots.length > 0 ? configuredSlots : [night.startTime || '12:00'];
+      const allocated = allocateCourtSlots(
+        indexes.map((index) => fixtures[index]),
+        courts,
+        slots
+      );
+      allocated.forEach((assignment, position) => {
+        assignments[indexes[position]] = assignment;
+      });
+    }
+  }
+
+  return fixtures.map((_, index) => {
+    const night = nightOf(index);
+    const assignment = assignments[index];
+    return {
+      startsAt: dateTimeIso(night.date, assignment?.timeSlot ?? night.startTime, calendar.timeZone),
+      weekday: night.weekday,
+      assignment,
+    };
+  });
+}
+
+export async function loadUnavailableByWeek(leagueId: string): Promise<UnavailableByWeek> {
+  const { data: availabilityRows, error: availabilityError } = await supabaseAdmin
+    .from('league_availability')
+    .select('user_id, week_number')
+    .eq('league_id', leagueId)
+    .eq('status', 'unavailable');
+
+  if (availabilityError) {
+    throw new SchedulePlanError(500, 'Failed to load league availability');
+  }
+
+  const unavailableByWeek: UnavailableByWeek = new Map();
+  for (const row of availabilityRows || []) {
+    const current = unavailableByWeek.get(row.week_number) || new Set<string>();
+    current.add(row.user_id);
+    unavailableByWeek.set(row.week_number, current);
+  }
+  return unavailableByWeek;
+}
+
+/**
+ * Works out the full schedule `schedule/generate` would create for the league's
+ * current members and rules, without writing anything.
+ */
+export async function buildSchedulePlan(
+  league: LeagueRow,
+  request: ScheduleRequest
+): Promise<SchedulePlan> {
+  const rules = mergeRules(toRulesObject(league.rules_jsonb), request.rulesOverride);
+  const calendar = getScheduleCalendar(league, rules);
+  const { seasonWeeks, blackoutDates, timeZone } = calendar;
+  const { courtId, seed } = request;
+  const random = createSeededRandom(seed);
+
+  const { data: members, error: membersError } = await supabaseAdmin
+    .from('league_members')
+    .select('user_id')
+    .eq('league_id', league.id);
+
+  if (membersError) {
+    throw new SchedulePlanError(500, 'Failed to load league members');
+  }
+
+  // Sorted so a seed reproduces the draw whatever order the rows come back in
+  const memberIds = (members || [])
+    .map((m) => m.user_id)
+    .filter(Boolean)
+    .sort();
+  if (memberIds.length === 0) {
+    throw new SchedulePlanError(400, 'League has no members');
+  }
+
+  if (league.league_type === 'ladder') {
+    throw new SchedulePlanError(400, 'Ladder leagues are played through challenges');
+  }
+
+  const isRoundRobin = league.sport_type !== 'running' && league.league_type !== 'tournament';
+  if (request.preserve && !isRoundRobin) {
+    throw new SchedulePlanError(400, 'Regeneration is only supported for round-robin leagues');
+  }
+
+  const plan: SchedulePlan = {
+    memberIds,
+    fixtures: [],
+    sessions: [],
+    bracket: null,
+    summary: {},
+    timeZone,
+    ...(isRoundRobin ? { calendar } : {}),
+  };
+
+  if (league.sport_type === 'running') {
+    const sessionType =
+      getNestedString(rules, ['sessions', 'default_session_type']) || 'time_trial';
+    const comparisonMode =
+      getNestedString(rules, ['sessions', 'comparison_mode']) || 'personal_progress';
+
+    for (let week = 1; week <= seasonWeeks; week++) {
+      const startsAt = getWeekStartIso(calendar, week);
+
+      plan.fixtures.push({
+        weekNumber: week,
+        startsAt,
+        endsAt: weekEndIso(startsAt),
+        fixtureType: 'time_trial_session',
+        courtId,
+        sideA: [],
+        sideB: [],
+        metadata: {
+          generated: true,
+          sport: 'running',
+          seed,
+        },
+      });
+      plan.sessions.push({
+        weekNumber: week,
+        sessionType,
+        startsAt,
+        submissionDeadline: sessionDeadlineIso(startsAt, blackoutDates, timeZone),
+        comparisonMode,
+      });
+    }
+
+    plan.summary = { sport: 'running', seasonWeeks, seed };
+    return plan;
+  }
+
+  // Tournament bracket generation
+  if (league.league_type === 'tournament') {
+    if (memberIds.length < 2) {
+      throw new SchedulePlanError(400, 'Tournament needs at least 2 players');
+    }
+
+    const tournamentFormat =
+      request.format ?? getNestedString(rules, ['tournament', 'format']) ?? 'bracket';
+
+    if (tournamentFormat === 'pool_play') {
+      const poolCount =
+        request.poolCount ?? getNestedNumber(rules, ['tournament', 'pool_count']) ?? 2;
+      const advancePerPool =
+        request.advancePerPool ??
+        getNestedNumber(rules, ['tournament', 'advance_per_pool']) ??
+        2;
+
+      if (league.scoring_format !== 'singles') {
+        throw new SchedulePlanError(400, 'Pool play is only supported for singles leagues');
+      }
+      if (
+        typeof poolCount !== 'number' ||
+        !Number.isInteger(poolCount) ||
+        poolCount < 1 ||
+        memberIds.length < poolCount * 2
+      ) {
+        throw new SchedulePlanError(
+          400,
+          'pool_count must be a positive integer with at least 2 players per pool'
+        );
+      }
+      const smallestPool = Math.floor(memberIds.length / poolCount);
+      if (
+        typeof advancePerPool !== 'number' ||
+        !Number.isInteger(advancePerPool) ||
+        advancePerPool < 1 ||
+        advancePerPool > smallestPool ||
+        advancePerPool * poolCount < 2
+      ) {
+        throw new SchedulePlanError(
+          400,
+          `advance_per_pool must be between 1 and ${smallestPool} and send at least 2 players to the knockout`
+        );
+      }
+
+      const poolPlay = generatePoolPlaySchedule(
+        memberIds,
+        poolCount,
+        request.seeding,
+        request.manualOrder,
+        random
+      );
+
+      const placements = placeOnMatchNights(calendar, poolPlay.fixtures, [], []);
+      plan.fixtures = poolPlay.fixtures.map((entry, index) => {
+        const { startsAt, weekday } = placements[index];
+        return {
+          weekNumber: entry.weekNumber,
+          startsAt,
+          endsAt: weekEndIso(startsAt),
+          fixtureType: 'league_match',
+          courtId,
+          sideA: entry.sideA,
+          sideB: entry.sideB,
+          metadata: {
+            generated: true,
+            sport: league.sport_type,
+            scoring_format: league.scoring_format,
+            seed,
+            pool: entry.pool,
+            ...(weekday !== null ? { match_day: weekday } : {}),
+            advance_per_pool: advancePerPool,
+          },
+        };
+      });
+      plan.summary = {
+        sport: league.sport_type,
+        leagueType: 'tournament',
+        format: 'pool_play',
+        pools: poolPlay.pools.map((players, index) => ({
+          pool: getPoolLabel(index),
+          players,
+        })),
+        poolWeeks: poolPlay.weeks,
+        advancePerPool,
+        seed,
+      };
+      return plan;
+    }
+
+    const bracketType =
+      request.bracketType ??
+      getNestedString(rules, ['tournament', 'bracket_type']) ??
+      'single_elimination';
+
+    if (bracketType !== 'single_elimination' && bracketType !== 'double_elimination') {
+      throw new SchedulePlanError(
+        400,
+        'bracket_type must be single_elimination or double_elimination'
+      );
+    }
+
+    const bracketFixtures = bracketType === 'double_elimination'
+      ? generateDoubleEliminationSchedule(
+          memberIds,
+          request.seeding,
+          request.manualOrder,
+          { grandFinalReset: request.grandFinalReset },
+          random
+        )
+      : generateSingleEliminationSchedule(memberIds, request.seeding, request.manualOrder, random);
+
+    if (bracketFixtures.length === 0) {
+      throw new SchedulePlanError(400, 'Could not generate bracket');
+    }
+
+    plan.bracket = {
+      fixtures: bracketFixtures,
+      metadata: {
+        generated: true,
+        sport: league.sport_type,
+        scoring_format: league.scoring_format,
+        bracket_type: bracketType,
+        seed,
+      },
+    };
+    plan.summary = {
+      sport: league.sport_type,
+      leagueType: 'tournament',
+      bracketType,
+      totalRounds: getTotalRounds(memberIds.length),
+      seed,
+    };
+    return plan;
+  }
+
+  const unavailableByWeek = await loadUnavailableByWeek(league.id);
+  const legs = getRoundRobinLegs(rules);
+  if (legs !== null && Number.isNaN(legs)) {
+    throw new SchedulePlanError(400, 'schedule.legs must be a positive integer for n_legs format');
+  }
+  const scheduleOptions = { unavailableByWeek, legs: legs ?? undefined, random };
+
+  if (getNestedString(rules, ['schedule', 'format']) === 'swiss') {
+    throw new SchedulePlanError(
+      400,
+      'Swiss leagues are scheduled one round at a time via schedule/swiss/next-round'
+    );
+  }
+
+  let schedule: ScheduledFixture[];
+  let roundsPerCycle: number | null = null;
+  let fairness: DoublesFairnessReport | null = null;
+  let isRotation = false;
+  // Box leagues: each division plays its own round robin in the same weeks
+  const divisions = getConfiguredDivisions(rules, memberIds);
+  const divisionByPlayer = new Map(
+    divisions.flatMap((players, index) => players.map((userId) => [userId, index + 1] as const))
+  );
+  if (divisions.length > 0 && league.scoring_format !== 'singles') {
+    throw new SchedulePlanError(400, 'Divisions are only supported for singles leagues');
+  }
+
+  if (league.scoring_format === 'singles') {
+    if (memberIds.length < 2) {
+      throw new SchedulePlanError(400, 'Singles schedule needs at least 2 members');
+    }
+    if (divisions.some((players) => players.length === 1)) {
+      throw new SchedulePlanError(400, 'Each division needs at least 2 members');
+    }
+    const groups =
+      divisions.length > 0 ? divisions.filter((players) => players.length > 0) : [memberIds];
+    schedule = groups.flatMap((players) =>
+      generateSinglesSchedule(players, seasonWeeks, scheduleOptions)
+    );
+    roundsPerCycle = getRoundRobinRoundCount(
+      Math.max(...groups.map((players) => players.length))
+    );
+  } else if (league.scoring_format === 'doubles') {
+    if (memberIds.length < 4) {
+      throw new SchedulePlanError(400, 'Doubles schedule needs at least 4 members');
+    }
+    const partnerMode = getNestedString(rules, ['match', 'doubles_partner_mode']);
+    const isAssigned =
+      partnerMode === 'fixed_pairs' || league.rotation_type === 'assigned';
+    const configuredFixedPairs = getConfiguredFixedPairs(rules, new Set(memberIds));
+    if (isAssigned && configuredFixedPairs.length < 2) {
+      throw new SchedulePlanError(
+        400,
+        'Assigned doubles requires at least 2 fixed teams. Configure teams first.'
+      );
+    }
+    roundsPerCycle = isAssigned ? getRoundRobinRoundCount(configuredFixedPairs.length) : null;
+    if (isAssigned) {
+      schedule = generateDoublesAssignedSchedule(
+        memberIds,
+        seasonWeeks,
+        configuredFixedPairs,
+        scheduleOptions
+      );
+    } else {
+      const rotation = generateDoublesRotationSchedule(memberIds, seasonWeeks, scheduleOptions);
+      schedule = rotation.fixtures;
+      fairness = rotation.fairness;
+      isRotation = true;
+    }
+  } else {
+    throw new SchedulePlanError(400, `Scheduling is not supported for ${league.scoring_format}`);
+  }
+
+  let unplaced: ScheduledFixture[] = [];
+  if (!request.preserve && !isRotation) {
+    const rebalanced = rebalanceForAvailability(schedule, seasonWeeks, unavailableByWeek);
+    schedule = rebalanced.fixtures;
+    unplaced = rebalanced.unplaced;
+  } else if (request.preserve) {
+    const { played, fromWeek } = request.preserve;
+    if (isRotation) {
+      // Random doubles has no fixed pairings to carry over; redraw the weeks left
+      schedule = schedule.filter((entry) => entry.weekNumber >= fromWeek);
+    } else {
+      const remaining = planRemainingFixtures(
+        schedule,
+        played,
+        fromWeek,
+        seasonWeeks,
+        unavailableByWeek
+      );
+      schedule = remaining.fixtures;
+      unplaced = remaining.unplaced;
+    }
+  }
+
+  // Fixtures are spread over the week's match nights; with courts configured,
+  // every fixture also gets its own court surface and time slot
+  const courts = getConfiguredCourts(rules);
+  const placements = placeOnMatchNights(calendar, schedule, courts, getConfiguredTimeSlots(rules));
+
+  plan.fixtures = schedule.map((entry, index) => {
+    const { startsAt, weekday, assignment } = placements[index];
+    return {
+      weekNumber: entry.weekNumber,
+      startsAt,
+      endsAt: weekEndIso(startsAt),
+      fixtureType: 'league_match',
+      courtId: assignment?.courtId ?? courtId,
+      sideA: entry.sideA,
+      sideB: entry.sideB,
+      metadata: {
+        generated: true,
+        sport: league.sport_type,
+        scoring_format: league.scoring_format,
+        seed,
+        ...(legs !== null && roundsPerCycle
+          ? {
+              leg:
+                Math.floor(((entry.deferredFromWeek ?? entry.weekNumber) - 1) / roundsPerCycle) +
+                1,
+            }
+          : {}),
+        ...(entry.deferredFromWeek ? { deferred_from_week: entry.deferredFromWeek } : {}),
+        ...(divisionByPlayer.has(entry.sideA[0])
+          ? { division: divisionByPlayer.get(entry.sideA[0]) }
+          : {}),
+        ...(assignment
+          ? { court_surface: assignment.surface, time_slot: assignment.timeSlot }
+          : {}),
+        ...(courts.length > 0 && !assignment ? { unallocated: true } : {}),
+        ...(weekday !== null ? { match_day: weekday } : {}),
+      },
+    };
+  });
+
+  plan.summary = {
+    sport: league.sport_type,
+    scoringFormat: league.scoring_format,
+    seasonWeeks,
+    deferredFixtures: schedule.filter((entry) => entry.deferredFromWeek).length,
+    format: getNestedString(rules, ['schedule', 'format']),
+    legs,
+    roundsPerCycle,
+    fullCycles: roundsPerCycle ? Math.floor(seasonWeeks / roundsPerCycle) : null,
+    fairness,
+    seed,
+    ...(divisions.length > 0
+      ? {
+          divisions: divisions.map((players, index) => ({ division: index + 1, players })),
+        }
+      : {}),
+    unallocatedFixtures: schedule
+      .filter((_, index) => courts.length > 0 && !placements[index].assignment)
+      .map((entry) => ({
+        weekNumber: entry.weekNumber,
+        sideA: entry.sideA,
+        sideB: entry.sideB,
+      })),
+    ...(request.preserve || unplaced.length > 0
+      ? {
+          unplacedFixtures: unplaced.map((entry) => ({
+            sideA: entry.sideA,
+            sideB: entry.sideB,
+          })),
+        }
+      : {}),
+  };
+  return plan;
+}
+
+type PersistContext = {
+  leagueId: string;
+  userId: string;
+  seasonId: string | null;
+  courtId: string | null;
+};
+
+/**
+ * Inserts the fixtures, participants and running sessions of a plan as one
+ * unit: if any insert fails, everything written so far is deleted again.
+ */
+export async function persistSchedulePlan(
+  plan: SchedulePlan,
+  context: PersistContext
+): Promise<PersistedSchedule> {
+  if (plan.bracket) {
+    const { createdFixtures, createdParticipants } = await createTournamentBracket({
+      leagueId: context.leagueId,
+      userId: context.userId,
+      seasonId: context.seasonId,
+      courtId: context.courtId,
+      fixtures: plan.bracket.fixtures,
+      metadata: plan.bracket.metadata,
+      roundPrefix: 'Round',
+      weekNumber: (entry) => entry.stage,
+    });
+    return { createdFixtures, createdParticipants, createdSessions: 0 };
+  }
+
+  return withRollback((created) => insertPlanFixtures(plan, context, created));
+}
+
+async function insertPlanFixtures(
+  plan: SchedulePlan,
+  context: PersistContext,
+  created: CreatedRows
+): Promise<PersistedSchedule> {
+  let createdFixtures = 0;
+  let createdParticipants = 0;
+  let createdSessions = 0;
+
+  for (const [index, entry] of plan.fixtures.entries()) {
+    const { data: fixture, error: fixtureError } = await supabaseAdmin
+      .from('league_fixtures')
+      .insert({
+        league_id: context.leagueId,
+        week_number: entry.weekNumber,
+        starts_at: entry.startsAt,
+        ends_at: entry.endsAt,
+        fixture_type: entry.fixtureType,
+        status: 'scheduled',
+        court_id: entry.courtId,
+        metadata: entry.metadata,
+        season_id: context.seasonId,
+        created_by: context.userId,
+      })
+      .select('id')
+      .single();
+
+    if (fixtureError || !fixture) {
+      throw new SchedulePlanError(500, fixtureError?.message || 'Failed to create fixture');
+    }
+    created.fixtureIds.push(fixture.id);
+
+    const session = entry.fixtureType === 'time_trial_session' ? plan.sessions[index] : null;
+    if (session) {
+      const { data: runningSession, error: runningError } = await supabaseAdmin
+        .from('running_sessions')
+        .insert({
+          league_id: context.leagueId,
+          week_number: session.weekNumber,
+          session_type: session.sessionType,
+          starts_at: session.startsAt,
+          submission_deadline: session.submissionDeadline,
+          comparison_mode: session.comparisonMode,
+          status: 'scheduled',
+          season_id: context.seasonId,
+          created_by: context.userId,
+        })
+        .select('id')
+        .single();
+
+      if (runningError || !runningSession) {
+        throw new SchedulePlanError(
+          500,
+          runningError?.message || 'Failed to create running session'
+        );
+      }
+      created.sessionIds.push(runningSession.id);
+      createdFixtures += 1;
+      createdSessions += 1;
+      continue;
+    }
+
+    const participantRows = [
+      ...entry.sideA.map((playerId) => ({
+        fixture_id: fixture.id,
+        user_id: playerId,
+        side: 'A',
+        role: 'player',
+      })),
+      ...entry.sideB.map((playerId) => ({
+        fixture_id: fixture.id,
+        user_id: playerId,
+        side: 'B',
+        role: 'player',
+      })),
+    ];
+
+    const { error: participantError } = await supabaseAdmin
+      .from('league_fixture_participants')
+      .insert(participantRows);
+
+    if (participantError) {
+      throw new SchedulePlanError(500, participantError.message);
+    }
+
+    createdFixtures += 1;
+    createdParticipants += participantRows.length;
+  }
+
+  return { createdFixtures, createdParticipants, createdSessions };
+}
+
+/**
+ * Groups a plan by week for the preview response. Byes are members without a
+ * fixture that week, and round robins list every season week even when
+ * nobody plays; for brackets, weeks are bracket stages.
+ */
+export function getSchedulePreviewWeeks(plan: SchedulePlan): SchedulePreviewWeek[] {
+  const weeks = new Map<number, SchedulePreviewWeek>();
+  const getWeek = (weekNumber: number, startsAt: string | null) => {
+    const week = weeks.get(weekNumber) || {
+      weekNumber,
+      startsAt,
+      startsAtLocal: toLocalIso(startsAt, plan.timeZone),
+      fixtures: [],
+      byes: [],
+    };
+    weeks.set(weekNumber, week);
+    return week;
+  };
+
+  if (plan.bracket) {
+    for (const fixture of plan.bracket.fixtures) {
+      const week = getWeek(fixture.stage, null);
+      const label = getBracketRoundLabel(fixture, plan.bracket.fixtures);
+      if (fixture.isBye) {
+        week.byes.push(...fixture.sideA, ...fixture.sideB);
+        continue;
+      }
+      week.fixtures.push({
+        sideA: fixture.sideA,
+        sideB: fixture.sideB,
+        startsAt: null,
+        startsAtLocal: null,
+        courtId: null,
+        label,
+      });
+    }
+    return [...weeks.values()].sort((a, b) => a.weekNumber - b.weekNumber);
+  }
+
+  for (const fixture of plan.fixtures) {
+    const week = getWeek(fixture.weekNumber, fixture.startsAt);
+    if (fixture.fixtureType === 'time_trial_session') continue;
+    week.fixtures.push({
+      sideA: fixture.sideA,
+      sideB: fixture.sideB,
+      startsAt: fixture.startsAt,
+      startsAtLocal: toLocalIso(fixture.startsAt, plan.timeZone),
+      courtId: fixture.courtId,
+      label: typeof fixture.metadata.pool === 'string' ? `Pool ${fixture.metadata.pool}` : null,
+    });
+  }
+
+  if (plan.calendar) {
+    for (let weekNumber = 1; weekNumber <= plan.calendar.seasonWeeks; weekNumber++) {
+      if (!weeks.has(weekNumber)) {
+        getWeek(weekNumber, getWeekStartIso(plan.calendar, weekNumber));
+      }
+    }
+  }
+
+  for (const week of weeks.values()) {
+    if (plan.sessions.length > 0) continue;
+    const playing = new Set(week.fixtures.flatMap((fixture) => [...fixture.sideA, ...fixture.sideB]));
+    week.byes = plan.memberIds.filter((memberId) => !playing.has(memberId));
+  }
+
+  return [...weeks.values()].sort((a, b) => a.weekNumber - b.weekNumber);
+}
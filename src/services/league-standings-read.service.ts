@@ -1,8 +1,12 @@
 import { supabaseAdmin } from '../utils/supabase';
 import { getNestedString, toRulesObject } from '../utils/rules';
 import {
+  calculateGroupStandings,
   calculateStandings,
   calculateTeamStandings,
+  excludeDepartedResults,
+  removeDepartedRows,
+  type GroupStanding,
   type RankingMatch,
   type RankingMember,
   type RankingParticipant,
@@ -10,11 +14,19 @@ import {
   type Standing,
   type TeamStanding,
 } from './standings.service';
+import {
+  getConfiguredDivisions,
+  getDepartedResultsMode,
+  getStandingsPoints,
+  getStandingsTiebreakers,
+} from './league-rules.service';
+import { type DivisionStanding } from './division.service';
 
 type LeagueStandingsLeagueRow = {
   id: string;
   sport_type: string;
   scoring_format: string;
+  current_season_id: string | null;
   rules_jsonb: unknown;
 };
 
@@ -32,6 +44,10 @@ type StandingsSources = {
 export type LeagueStandingsPayload = {
   standings: Standing[];
   teamStandings: TeamStanding[];
+  /** Per-pool tables for group-stage tournaments; empty otherwise. */
+  groupStandings: GroupStanding[];
+  /** Current-season tables for box league divisions, top division first; empty otherwise. */
+  divisionStandings: DivisionStanding[];
   runningMode: RunningComparisonMode | null;
   sources: StandingsSources;
 };
@@ -77,10 +93,71 @@ function getFinalResultFromMetadata(
   };
 }
 
+function getPoolFromMetadata(metadata: Record<string, unknown> | null): string | null {
+  return metadata && typeof metadata.pool === 'string' ? metadata.pool : null;
+}
+
+/** Team ids a team_vs_team fixture recorded in `metadata.teams`, e.g. { A: 'reds', B: 'blues' }. */
+function getTeamsFromMetadata(
+  metadata: Record<string, unknown> | null
+): Partial<Record<'A' | 'B', string>> | null {
+  const teams = metadata?.teams;
+  if (!teams || typeof teams !== 'object' || Array.isArray(teams)) return null;
+  const { A, B } = teams as Record<string, unknown>;
+  return {
+    ...(typeof A === 'string' && A ? { A } : {}),
+    ...(typeof B === 'string' && B ? { B } : {}),
+  };
+}
+
+/**
+ * Maps each pool to the players drawn into it, including pool fixtures that
+ * are not finalized yet.
+ */
+async function loadPoolMembers(leagueId: string): Promise<Map<string, string[]>> {
+  const { data: poolFixtures, error: poolFixtureError } = await supabaseAdmin
+    .from('league_fixtures')
+    .select('id, metadata')
+    .eq('league_id', leagueId)
+    .neq('status', 'cancelled')
+    .not('metadata->pool', 'is', null);
+
+  if (poolFixtureError) {
+    throw new LeagueStandingsLoadError(500, poolFixtureError.message);
+  }
+
+  const poolByFixture = new Map<string, string>();
+  for (const fixture of poolFixtures || []) {
+    const pool = getPoolFromMetadata(fixture.metadata as Record<string, unknown> | null);
+    if (pool) poolByFixture.set(fixture.id, pool);
+  }
+
+  const poolMembers = new Map<string, string[]>();
+  if (poolByFixture.size === 0) return poolMembers;
+
+  const { data: poolParticipants, error: poolParticipantError } = await supabaseAdmin
+    .from('league_fixture_participants')
+    .select('fixture_id, user_id')
+    .in('fixture_id', [...poolByFixture.keys()]);
+
+  if (poolParticipantError) {
+    throw new LeagueStandingsLoadError(500, poolParticipantError.message);
+  }
+
+  for (const participant of poolParticipants || []) {
+    const pool = poolByFixture.get(participant.fixture_id);
+    if (!pool) continue;
+    const current = poolMembers.get(pool) || [];
+    if (!current.includes(participant.user_id)) current.push(participant.user_id);
+    poolMembers.set(pool, current);
+  }
+  return poolMembers;
+}
+
 async function getLeagueForStandings(leagueId: string): Promise<LeagueStandingsLeagueRow | null> {
   const { data, error } = await supabaseAdmin
     .from('leagues')
-    .select('id, sport_type, scoring_format, rules_jsonb')
+    .select('id, sport_type, scoring_format, current_season_id, rules_jsonb')
     .eq('id', leagueId)
     .single();
 
@@ -188,7 +265,7 @@ export async function loadLeagueStandings(
 
   const { data: fixtures, error: fixtureError } = await supabaseAdmin
     .from('league_fixtures')
-    .select('id, status, week_number, metadata')
+    .select('id, status, week_number, season_id, metadata')
     .eq('league_id', leagueId)
     .eq('status', 'finalized');
 
@@ -197,6 +274,16 @@ export async function loadLeagueStandings(
   }
 
   const fixtureIds = (fixtures || []).map((fixture) => fixture.id);
+  // Division tables only count this season, since players move between seasons
+  const divisionByMatch = new Map<string, number>();
+  for (const fixture of fixtures || []) {
+    const division = (fixture.metadata as Record<string, unknown> | null)?.division;
+    const isCurrentSeason =
+      !league.current_season_id || fixture.season_id === league.current_season_id;
+    if (typeof division === 'number' && isCurrentSeason) {
+      divisionByMatch.set(`workflow:${fixture.id}`, division);
+    }
+  }
   const fixtureById = new Map((fixtures || []).map((fixture) => [fixture.id, fixture]));
   if (fixtureIds.length > 0) {
     const { data: fixtureParticipants, error: fixtureParticipantError } = await supabaseAdmin
@@ -217,6 +304,8 @@ export async function loadLeagueStandings(
         status: 'completed',
         week_number: fixture.week_number,
         winner: finalResult?.winner || null,
+        group: getPoolFromMetadata(fixture.metadata as Record<string, unknown> | null),
+        teams: getTeamsFromMetadata(fixture.metadata as Record<string, unknown> | null),
       });
     });
 
@@ -291,14 +380,32 @@ export async function loadLeagueStandings(
     }
   }
 
-  const standings = calculateStandings(
-    league.scoring_format,
-    rankingMatches,
-    rankingParticipants,
-    rankingMembers,
-    {
-      runningComparisonMode: league.sport_type === 'running' ? runningComparisonMode : undefined,
-    }
+  // Results of players who left mid-season follow `standings.departed_results`
+  const departedMode = getDepartedResultsMode(rules);
+  const currentMemberIds = new Set(memberIds);
+  if (departedMode === 'void') {
+    const kept = excludeDepartedResults(rankingMatches, rankingParticipants, currentMemberIds);
+    rankingMatches.splice(0, rankingMatches.length, ...kept.matches);
+    rankingParticipants.splice(0, rankingParticipants.length, ...kept.participants);
+  }
+  const applyDepartedRows = (rows: Standing[]) =>
+    departedMode === 'hide' ? removeDepartedRows(rows, currentMemberIds) : rows;
+
+  // Match points and tiebreaker order follow `standings.points` / `standings.tiebreakers`
+  const standingOptions = {
+    runningComparisonMode: league.sport_type === 'running' ? runningComparisonMode : undefined,
+    points: getStandingsPoints(rules),
+    tiebreakers: getStandingsTiebreakers(rules),
+  };
+
+  const standings = applyDepartedRows(
+    calculateStandings(
+      league.scoring_format,
+      rankingMatches,
+      rankingParticipants,
+      rankingMembers,
+      standingOptions
+    )
   );
 
   // Compute previousRank by excluding the latest week's matches
@@ -314,14 +421,14 @@ export async function loadLeagueStandings(
     const prevMatchIds = new Set(prevMatches.map((m) => m.id));
     const prevParticipants = rankingParticipants.filter((p) => prevMatchIds.has(p.match_id));
 
-    const prevStandings = calculateStandings(
-      league.scoring_format,
-      prevMatches,
-      prevParticipants,
-      rankingMembers,
-      {
-        runningComparisonMode: league.sport_type === 'running' ? runningComparisonMode : undefined,
-      }
+    const prevStandings = applyDepartedRows(
+      calculateStandings(
+        league.scoring_format,
+        prevMatches,
+        prevParticipants,
+        rankingMembers,
+        standingOptions
+      )
     );
 
     const prevRankMap = new Map(prevStandings.map((s) => [s.user_id, s.rank]));
@@ -331,13 +438,48 @@ export async function loadLeagueStandings(
   }
 
   const teamStandings =
-    league.scoring_format === 'doubles'
-      ? calculateTeamStandings(rankingMatches, rankingParticipants, rankingMembers)
+    league.scoring_format === 'doubles' || league.scoring_format === 'team_vs_team'
+      ? calculateTeamStandings(
+          league.scoring_format,
+          rankingMatches,
+          rankingParticipants,
+          rankingMembers,
+          {
+            points: standingOptions.points,
+            tiebreakers: standingOptions.tiebreakers,
+          }
+        )
       : [];
 
+  const poolMembers = await loadPoolMembers(leagueId);
+  const groupStandings = calculateGroupStandings(
+    league.scoring_format,
+    rankingMatches,
+    rankingParticipants,
+    rankingMembers,
+    poolMembers,
+    standingOptions
+  );
+
+  const divisionStandings = getConfiguredDivisions(rules, memberIds).map((players, index) => {
+    const divisionMemberIds = new Set(players);
+    return {
+      division: index + 1,
+      standings: calculateStandings(
+        league.scoring_format,
+        rankingMatches.filter((match) => divisionByMatch.get(match.id) === index + 1),
+        rankingParticipants,
+        rankingMembers.filter((member) => divisionMemberIds.has(member.user_id)),
+        standingOptions
+      ),
+    };
+  });
+
   return {
     standings,
     teamStandings,
+    groupStandings,
+    divisionStandings,
     runningMode: league.sport_type === 'running' ? runningComparisonMode : null,
     sources: {
       legacyCompletedMatches: legacyMatchIds.length,
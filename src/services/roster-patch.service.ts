@@ -0,0 +1,280 @@
+import { supabaseAdmin } from '../utils/supabase';
+import { getNestedArray, getNestedString, toRulesObject } from '../utils/rules';
+import { weekEndIso } from '../utils/league-dates';
+import { getLeague, type LeagueRow } from './league.service';
+import { isAssignedDoublesLeague } from './league-rules.service';
+import { addLadderMember } from './ladder-read.service';
+import {
+  getCurrentSeasonFixtures,
+  planDepartureFixtures,
+  planJoinerFixtures,
+  type ScheduledFixture,
+} from './fixture-schedule.service';
+import {
+  getScheduleCalendar,
+  loadUnavailableByWeek,
+  persistSchedulePlan,
+  placeOnMatchNights,
+} from './league-schedule.service';
+
+type LeagueMatchFixture = ScheduledFixture & {
+  id: string;
+  status: string;
+  metadata: Record<string, unknown>;
+};
+
+export type JoinPatchResult = {
+  addedFixtures: number;
+  /** Why the schedule was left alone, when it was. */
+  skipped: string | null;
+};
+
+export type DeparturePatchResult = {
+  movedFixtures: number;
+  cancelledFixtures: number;
+};
+
+/** League matches of the current season; earlier seasons' weeks and pairings don't count. */
+async function loadLeagueMatchFixtures(league: LeagueRow): Promise<LeagueMatchFixture[]> {
+  const { data: allFixtureRows, error: fixtureError } = await supabaseAdmin
+    .from('league_fixtures')
+    .select('id, week_number, status, season_id, metadata')
+    .eq('league_id', league.id)
+    .eq('fixture_type', 'league_match')
+    .neq('status', 'cancelled');
+
+  if (fixtureError) {
+    throw new Error(fixtureError.message);
+  }
+
+  const fixtureRows = getCurrentSeasonFixtures(
+    (allFixtureRows || []).map((fixture) => ({ ...fixture, seasonId: fixture.season_id })),
+    league.current_season_id
+  );
+  const fixtureIds = fixtureRows.map((fixture) => fixture.id);
+  const { data: participantRows, error: participantError } = fixtureIds.length
+    ? await supabaseAdmin
+        .from('league_fixture_participants')
+        .select('fixture_id, user_id, side')
+        .in('fixture_id', fixtureIds)
+    : { data: [] as Array<{ fixture_id: string; user_id: string; side: string }>, error: null };
+
+  if (participantError) {
+    throw new Error(participantError.message);
+  }
+
+  return fixtureRows.map((fixture) => {
+    const participants = (participantRows || []).filter((row) => row.fixture_id === fixture.id);
+    return {
+      id: fixture.id,
+      status: fixture.status,
+      metadata: (fixture.metadata as Record<string, unknown> | null) || {},
+      weekNumber: fixture.week_number ?? 0,
+      sideA: participants.filter((row) => row.side === 'A').map((row) => row.user_id),
+      sideB: participants.filter((row) => row.side === 'B').map((row) => row.user_id),
+    };
+  });
+}
+
+async function loadMemberIds(leagueId: string): Promise<string[]> {
+  const { data: members, error: membersError } = await supabaseAdmin
+    .from('league_members')
+    .select('user_id')
+    .eq('league_id', leagueId);
+
+  if (membersError) {
+    throw new Error(membersError.message);
+  }
+  return (members || []).map((member) => member.user_id).filter(Boolean);
+}
+
+/**
+ * Gives a member who joined after the schedule was generated fixtures in the
+ * weeks still to come, taking over byes and sit-outs first.
+ */
+export async function addMemberToSchedule(
+  leagueId: string,
+  userId: string
+): Promise<JoinPatchResult> {
+  const league = await getLeague(leagueId);
+  if (!league) return { addedFixtures: 0, skipped: 'League not found' };
+
+  const rules = toRulesObject(league.rules_jsonb);
+  if (league.sport_type === 'running' || league.league_type === 'tournament') {
+    return { addedFixtures: 0, skipped: 'Only round-robin schedules are patched' };
+  }
+  if (league.league_type === 'ladder') {
+    await addLadderMember(league, userId);
+    return { addedFixtures: 0, skipped: 'New ladder members start at the bottom' };
+  }
+  if (getNestedString(rules, ['schedule', 'format']) === 'swiss') {
+    return { addedFixtures: 0, skipped: 'Swiss rounds pick up new members automatically' };
+  }
+  if (league.scoring_format !== 'singles' && league.scoring_format !== 'doubles') {
+    return { addedFixtures: 0, skipped: `No schedule patching for ${league.scoring_format}` };
+  }
+  if (isAssignedDoublesLeague(league, rules)) {
+    return { addedFixtures: 0, skipped: 'Add the member to a fixed team to schedule them' };
+  }
+  if (getNestedArray(rules, ['divisions', 'assignments'])) {
+    return { addedFixtures: 0, skipped: 'Assign the member to a division and regenerate' };
+  }
+
+  const fixtures = await loadLeagueMatchFixtures(league);
+  if (fixtures.length === 0) return { addedFixtures: 0, skipped: 'No schedule yet' };
+
+  const calendar = getScheduleCalendar(league, rules);
+  const playedWeeks = fixtures
+    .filter((fixture) => fixture.status !== 'scheduled')
+    .map((fixture) => fixture.weekNumber);
+  const fromWeek = Math.max(0, ...playedWeeks) + 1;
+
+  const added = planJoinerFixtures(
+    userId,
+    fixtures,
+    await loadMemberIds(leagueId),
+    league.scoring_format === 'doubles' ? 2 : 1,
+    fromWeek,
+    calendar.seasonWeeks,
+    await loadUnavailableByWeek(leagueId)
+  );
+  const placements = placeOnMatchNights(calendar, added, [], []);
+
+  const { createdFixtures } = await persistSchedulePlan(
+    {
+      memberIds: [],
+      sessions: [],
+      bracket: null,
+      summary: {},
+      timeZone: calendar.timeZone,
+      fixtures: added.map((entry, index) => {
+        const { startsAt, weekday } = placements[index];
+        return {
+          weekNumber: entry.weekNumber,
+          startsAt,
+          endsAt: weekEndIso(startsAt),
+          fixtureType: 'league_match',
+          courtId: league.default_court_id || null,
+          sideA: entry.sideA,
+          sideB: entry.sideB,
+          metadata: {
+            generated: true,
+            sport: league.sport_type,
+            scoring_format: league.scoring_format,
+            roster_patch: 'joined',
+            ...(weekday !== null ? { match_day: weekday } : {}),
+          },
+        };
+      }),
+    },
+    {
+      leagueId,
+      userId,
+      seasonId: league.current_season_id || null,
+      courtId: league.default_court_id || null,
+    }
+  );
+
+  return { addedFixtures: createdFixtures, skipped: null };
+}
+
+/**
+ * Moves a departed member's unplayed fixtures to players with a bye that
+ * week, or cancels them. Call before the membership row is removed.
+ * Tournament brackets are left to the organizer; on a ladder the member's
+ * open challenges are cancelled rather than handed to someone else.
+ */
+export async function removeMemberFromSchedule(
+  leagueId: string,
+  userId: string
+): Promise<DeparturePatchResult> {
+  const league = await getLeague(leagueId);
+  if (!league || league.league_type === 'tournament') {
+    return { movedFixtures: 0, cancelledFixtures: 0 };
+  }
+
+  const fixtures = await loadLeagueMatchFixtures(league);
+  if (league.league_type === 'ladder') {
+    const abandoned = fixtures.filter(
+      (fixture) =>
+        fixture.status !== 'finalized' &&
+        [...fixture.sideA, ...fixture.sideB].includes(userId)
+    );
+    for (const fixture of abandoned) {
+      const { error: cancelError } = await supabaseAdmin
+        .from('league_fixtures')
+        .update({
+          status: 'cancelled',
+          metadata: {
+            ...fixture.metadata,
+            challenge_status: 'cancelled',
+            cancel_reason: 'member_left',
+          },
+        })
+        .eq('id', fixture.id);
+
+      if (cancelError) {
+        throw new Error(cancelError.message);
+      }
+    }
+    return { movedFixtures: 0, cancelledFixtures: abandoned.length };
+  }
+
+  const open = fixtures.filter((fixture) => fixture.status === 'scheduled');
+  const others = fixtures.filter((fixture) => fixture.status !== 'scheduled');
+
+  // In a box league only the departed member's division mates can step in
+  const memberIds = await loadMemberIds(leagueId);
+  const departedDivision = getNestedArray(toRulesObject(league.rules_jsonb), [
+    'divisions',
+    'assignments',
+  ])?.find((entry) => Array.isArray(entry) && entry.includes(userId));
+  const candidateIds = Array.isArray(departedDivision)
+    ? memberIds.filter((memberId) => departedDivision.includes(memberId))
+    : memberIds;
+
+  const plan = planDepartureFixtures(
+    userId,
+    open,
+    others,
+    candidateIds,
+    await loadUnavailableByWeek(leagueId)
+  );
+  const fixtureById = new Map(fixtures.map((fixture) => [fixture.id, fixture]));
+
+  for (const { id, replacementId } of plan.moved) {
+    const { error: participantError } = await supabaseAdmin
+      .from('league_fixture_participants')
+      .update({ user_id: replacementId })
+      .eq('fixture_id', id)
+      .eq('user_id', userId);
+
+    if (participantError) {
+      throw new Error(participantError.message);
+    }
+
+    await supabaseAdmin
+      .from('league_fixtures')
+      .update({
+        metadata: { ...fixtureById.get(id)?.metadata, replaced_user_id: userId },
+      })
+      .eq('id', id);
+  }
+
+  for (const id of plan.cancelled) {
+    const { error: cancelError } = await supabaseAdmin
+      .from('league_fixtures')
+      .update({
+        status: 'cancelled',
+        metadata: { ...fixtureById.get(id)?.metadata, cancel_reason: 'member_left' },
+      })
+      .eq('id', id)
+      .eq('status', 'scheduled');
+
+    if (cancelError) {
+      throw new Error(cancelError.message);
+    }
+  }
+
+  return { movedFixtures: plan.moved.length, cancelledFixtures: plan.cancelled.length };
+}
@@ -3,6 +3,10 @@ export type RankingMatch = {
   status: string;
   week_number: number | null;
   winner?: string | null;
+  /** Pool the match was played in, for group-stage tournaments. */
+  group?: string | null;
+  /** Team id each side played as, for team_vs_team fixtures that record one. */
+  teams?: Partial<Record<'A' | 'B', string>> | null;
 };
 
 export type RankingParticipant = {
@@ -22,6 +26,37 @@ export type RankingMember = {
   avatar_url: string | null;
 };
 
+export type Tiebreaker =
+  | 'points'
+  | 'head_to_head'
+  | 'set_difference'
+  | 'game_difference'
+  | 'goal_difference'
+  | 'wins'
+  | 'fewest_played'
+  | 'most_played';
+
+export const TIEBREAKERS: readonly Tiebreaker[] = [
+  'points',
+  'head_to_head',
+  'set_difference',
+  'game_difference',
+  'goal_difference',
+  'wins',
+  'fewest_played',
+  'most_played',
+];
+
+/** Points per result. A close loss earns `loss + closeLossBonus`. */
+export type MatchPoints = {
+  win: number;
+  draw: number;
+  loss: number;
+  closeLossBonus: number;
+  /** Largest losing margin that still counts as close: sets, or goals for team_vs_team. */
+  closeLossMargin: number;
+};
+
 export type Standing = {
   user_id: string;
   name: string | null;
@@ -33,11 +68,23 @@ export type Standing = {
   losses: number;
   points: number;
   goalDifference: number;
+  /** Sets and games from recorded set scores; zero for formats without sets. */
+  setsWon: number;
+  setsLost: number;
+  gamesWon: number;
+  gamesLost: number;
+  setDifference: number;
+  gameDifference: number;
   totalTime: number;
   totalPoints: number;
   streak: number;
   form: Array<'W' | 'L' | 'D'>;
   previousRank: number | null;
+  /**
+   * Rule that placed this row below the one above when both were level on the
+   * first ranking rule; `unresolved` when every rule left them level.
+   */
+  tiebreaker: Tiebreaker | 'unresolved' | null;
 };
 
 export type TeamStanding = {
@@ -47,16 +94,195 @@ export type TeamStanding = {
   rank: number;
   played: number;
   wins: number;
+  draws: number;
   losses: number;
   winPct: number;
+  points: number;
+  goalDifference: number;
+  setsWon: number;
+  setsLost: number;
+  gamesWon: number;
+  gamesLost: number;
+  setDifference: number;
+  gameDifference: number;
+  tiebreaker: Tiebreaker | 'unresolved' | null;
+};
+
+export type GroupStanding = {
+  group: string;
+  standings: Standing[];
 };
 
 export type RunningComparisonMode = 'absolute_performance' | 'personal_progress';
 
 type StandingOptions = {
   runningComparisonMode?: RunningComparisonMode;
+  /** Overrides the scoring format's default points per result. */
+  points?: Partial<MatchPoints>;
+  /** Ordered ranking rules for match formats; defaults keep the format's built-in order. */
+  tiebreakers?: Tiebreaker[] | null;
+};
+
+const DEFAULT_MATCH_POINTS: MatchPoints = {
+  win: 1,
+  draw: 0,
+  loss: 0,
+  closeLossBonus: 0,
+  closeLossMargin: 1,
 };
 
+const DEFAULT_TEAM_POINTS: MatchPoints = { ...DEFAULT_MATCH_POINTS, win: 3, draw: 1 };
+
+// Set and game difference only split players level on wins and losses
+const DEFAULT_MATCH_TIEBREAKERS: Tiebreaker[] = [
+  'points',
+  'fewest_played',
+  'set_difference',
+  'game_difference',
+];
+
+const DEFAULT_TEAM_TIEBREAKERS: Tiebreaker[] = [
+  'points',
+  'goal_difference',
+  'wins',
+  'most_played',
+];
+
+/** One completed match, for head-to-head tiebreaks between the entrants in it. */
+type MatchOutcome = {
+  /** Player ids, or team keys when ranking whole teams. */
+  sideA: string[];
+  sideB: string[];
+  winner: 'A' | 'B' | 'D';
+};
+
+type TiebreakLabel = Tiebreaker | 'unresolved' | null;
+
+type RankingContext<T> = {
+  tiebreakers: Tiebreaker[];
+  points: MatchPoints;
+  outcomes: MatchOutcome[];
+  /** The id `outcomes` uses for this row. */
+  getKey: (row: T) => string;
+  getMetric: (row: T, tiebreaker: Exclude<Tiebreaker, 'head_to_head'>) => number;
+};
+
+function getResultPoints(points: MatchPoints, result: 'W' | 'L' | 'D'): number {
+  if (result === 'W') return points.win;
+  if (result === 'D') return points.draw;
+  return points.loss;
+}
+
+/**
+ * Mini-league between level entrants: points each took from matches with a
+ * member of the group on both sides, ignoring every other result.
+ */
+function getHeadToHeadPoints<T>(group: T[], context: RankingContext<T>): Map<string, number> {
+  const keys = new Set(group.map(context.getKey));
+  const totals = new Map([...keys].map((key) => [key, 0]));
+
+  for (const outcome of context.outcomes) {
+    const onA = outcome.sideA.filter((key) => keys.has(key));
+    const onB = outcome.sideB.filter((key) => keys.has(key));
+    if (onA.length === 0 || onB.length === 0) continue;
+
+    for (const [sideKeys, side] of [
+      [onA, 'A'],
+      [onB, 'B'],
+    ] as const) {
+      const result = outcome.winner === 'D' ? 'D' : outcome.winner === side ? 'W' : 'L';
+      for (const key of sideKeys) {
+        totals.set(key, (totals.get(key) ?? 0) + getResultPoints(context.points, result));
+      }
+    }
+  }
+  return totals;
+}
+
+function getStandingMetric(
+  standing: Standing,
+  tiebreaker: Exclude<Tiebreaker, 'head_to_head'>
+): number {
+  switch (tiebreaker) {
+    case 'points':
+      return standing.points;
+    case 'set_difference':
+      return standing.setDifference;
+    case 'game_difference':
+      return standing.gameDifference;
+    case 'goal_difference':
+      return standing.goalDifference;
+    case 'wins':
+      return standing.wins;
+    case 'fewest_played':
+      return -standing.played;
+    case 'most_played':
+      return standing.played;
+  }
+}
+
+/**
+ * Orders rows by the first tiebreaker, then splits them into level groups and
+ * orders each group by the next one. A head-to-head step that only separates
+ * part of a group is replayed among the rows still level before moving on.
+ * Every group leader below the first is labelled with the rule that separated it.
+ */
+function orderByTiebreakers<T extends { tiebreaker: TiebreakLabel }>(
+  group: T[],
+  level: number,
+  context: RankingContext<T>
+): T[] {
+  if (group.length < 2) return group;
+  if (level >= context.tiebreakers.length) {
+    group.slice(1).forEach((row) => {
+      row.tiebreaker = 'unresolved';
+    });
+    return group;
+  }
+
+  const tiebreaker = context.tiebreakers[level];
+  const values =
+    tiebreaker === 'head_to_head'
+      ? getHeadToHeadPoints(group, context)
+      : new Map(group.map((row) => [context.getKey(row), context.getMetric(row, tiebreaker)]));
+  const valueOf = (row: T) => values.get(context.getKey(row)) ?? 0;
+  const sorted = [...group].sort((a, b) => valueOf(b) - valueOf(a));
+
+  const levelGroups: T[][] = [];
+  for (const row of sorted) {
+    const current = levelGroups[levelGroups.length - 1];
+    if (current && valueOf(current[0]) === valueOf(row)) {
+      current.push(row);
+    } else {
+      levelGroups.push([row]);
+    }
+  }
+
+  return levelGroups.flatMap((levelGroup, index) => {
+    const replay =
+      tiebreaker === 'head_to_head' && levelGroups.length > 1 && levelGroup.length > 1;
+    const ordered = orderByTiebreakers(levelGroup, replay ? level : level + 1, context);
+    // The first rule decides the table; only later rules separate level rows
+    if (index > 0) ordered[0].tiebreaker = level === 0 ? null : tiebreaker;
+    return ordered;
+  });
+}
+
+function rankStandings(
+  standings: Standing[],
+  context: Omit<RankingContext<Standing>, 'getKey' | 'getMetric'>
+): Standing[] {
+  const ranked = orderByTiebreakers(standings, 0, {
+    ...context,
+    getKey: (standing) => standing.user_id,
+    getMetric: getStandingMetric,
+  });
+  ranked.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+  return ranked;
+}
+
 type PlayerMatchResult = {
   week: number;
   matchId: string;
@@ -131,6 +357,82 @@ function computeStreakAndForm(
   return { streak, form };
 }
 
+/** Running totals for one player across head-to-head matches. */
+type MatchStat = {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  closeLosses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  setsFor: number;
+  setsAgainst: number;
+  gamesFor: number;
+  gamesAgainst: number;
+};
+
+function createMatchStat(): MatchStat {
+  return {
+    played: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    closeLosses: 0,
+    goalsFor: 0,
+    goalsAgainst: 0,
+    setsFor: 0,
+    setsAgainst: 0,
+    gamesFor: 0,
+    gamesAgainst: 0,
+  };
+}
+
+function getMatchStatPoints(stat: MatchStat, points: MatchPoints): number {
+  return (
+    stat.wins * points.win +
+    stat.draws * points.draw +
+    stat.losses * points.loss +
+    stat.closeLosses * points.closeLossBonus
+  );
+}
+
+/**
+ * Set scores of a match as side A recorded them, [gamesA, gamesB]. Side B's
+ * rows are ignored because older ones hold scores from that player's view.
+ */
+function getMatchSets(matchParticipants: RankingParticipant[]): number[][] {
+  return (
+    matchParticipants.find(
+      (participant) => participant.team === 'A' && participant.set_scores?.sets?.length
+    )?.set_scores?.sets || []
+  );
+}
+
+function getSetTotals(sets: number[][]): Record<'A' | 'B', { sets: number; games: number }> {
+  return {
+    A: {
+      sets: sets.filter(([gamesA, gamesB]) => gamesA > gamesB).length,
+      games: sets.reduce((total, [gamesA]) => total + gamesA, 0),
+    },
+    B: {
+      sets: sets.filter(([gamesA, gamesB]) => gamesB > gamesA).length,
+      games: sets.reduce((total, [, gamesB]) => total + gamesB, 0),
+    },
+  };
+}
+
+/** A loss by no more than `closeLossMargin` sets; matches without set scores never count. */
+function isCloseSetLoss(sets: number[][], points: MatchPoints): boolean {
+  if (sets.length === 0) return false;
+  const totals = getSetTotals(sets);
+  return Math.abs(totals.A.sets - totals.B.sets) <= points.closeLossMargin;
+}
+
+/**
+ * Ranks members for one scoring format. Singles, doubles and team_vs_team
+ * tables use `options.points` and walk `options.tiebreakers` in order.
+ */
 export function calculateStandings(
   scoringFormat: string,
   matches: RankingMatch[],
@@ -145,31 +447,13 @@ export function calculateStandings(
   );
 
   if (scoringFormat === 'team_vs_team') {
-    const stats: Record<
-      string,
-      {
-        played: number;
-        wins: number;
-        draws: number;
-        losses: number;
-        points: number;
-        goalsFor: number;
-        goalsAgainst: number;
-      }
-    > = {};
-
+    const points = { ...DEFAULT_TEAM_POINTS, ...options.points };
+    const stats: Record<string, MatchStat> = {};
     for (const member of members) {
-      stats[member.user_id] = {
-        played: 0,
-        wins: 0,
-        draws: 0,
-        losses: 0,
-        points: 0,
-        goalsFor: 0,
-        goalsAgainst: 0,
-      };
+      stats[member.user_id] = createMatchStat();
     }
 
+    const outcomes: MatchOutcome[] = [];
     for (const match of completedMatches) {
       const matchParticipants = relevantParticipants.filter(
         (participant) => participant.match_id === match.id
@@ -180,56 +464,32 @@ export function calculateStandings(
 
       const scoreA = teamA[0]?.score ?? 0;
       const scoreB = teamB[0]?.score ?? 0;
+      outcomes.push({
+        sideA: teamA.map((participant) => participant.user_id),
+        sideB: teamB.map((participant) => participant.user_id),
+        winner: scoreA > scoreB ? 'A' : scoreB > scoreA ? 'B' : 'D',
+      });
 
-      for (const participant of teamA) {
-        if (!stats[participant.user_id]) {
-          stats[participant.user_id] = {
-            played: 0,
-            wins: 0,
-            draws: 0,
-            losses: 0,
-            points: 0,
-            goalsFor: 0,
-            goalsAgainst: 0,
-          };
-        }
-        stats[participant.user_id].played += 1;
-        stats[participant.user_id].goalsFor += scoreA;
-        stats[participant.user_id].goalsAgainst += scoreB;
-        if (scoreA > scoreB) {
-          stats[participant.user_id].wins += 1;
-          stats[participant.user_id].points += 3;
-        } else if (scoreA === scoreB) {
-          stats[participant.user_id].draws += 1;
-          stats[participant.user_id].points += 1;
-        } else {
-          stats[participant.user_id].losses += 1;
-        }
-      }
-
-      for (const participant of teamB) {
-        if (!stats[participant.user_id]) {
-          stats[participant.user_id] = {
-            played: 0,
-            wins: 0,
-            draws: 0,
-            losses: 0,
-            points: 0,
-            goalsFor: 0,
-            goalsAgainst: 0,
-          };
-        }
-        stats[participant.user_id].played += 1;
-        stats[participant.user_id].goalsFor += scoreB;
-        stats[participant.user_id].goalsAgainst += scoreA;
-        if (scoreB > scoreA) {
-          stats[participant.user_id].wins += 1;
-          stats[participant.user_id].points += 3;
-        } else if (scoreB === scoreA) {
-          stats[participant.user_id].draws += 1;
-          stats[participant.user_id].points += 1;
-        } else {
-          stats[participant.user_id].losses += 1;
+      for (const [team, goalsFor, goalsAgainst] of [
+        [teamA, scoreA, scoreB],
+        [teamB, scoreB, scoreA],
+      ] as const) {
+        for (const participant of team) {
+          if (!stats[participant.user_id]) {
+            stats[participant.user_id] = createMatchStat();
+          }
+          const stat = stats[participant.user_id];
+          stat.played += 1;
+          stat.goalsFor += goalsFor;
+          stat.goalsAgainst += goalsAgainst;
+          if (goalsFor > goalsAgainst) {
+            stat.wins += 1;
+          } else if (goalsFor === goalsAgainst) {
+            stat.draws += 1;
+          } else {
+            stat.losses += 1;
+            if (goalsAgainst - goalsFor <= points.closeLossMargin) stat.closeLosses += 1;
+          }
         }
       }
     }
@@ -246,29 +506,29 @@ export function calculateStandings(
         wins: stat.wins,
         draws: stat.draws,
         losses: stat.losses,
-        points: stat.points,
+        points: getMatchStatPoints(stat, points),
         goalDifference: stat.goalsFor - stat.goalsAgainst,
+        setsWon: 0,
+        setsLost: 0,
+        gamesWon: 0,
+        gamesLost: 0,
+        setDifference: 0,
+        gameDifference: 0,
         totalTime: 0,
         totalPoints: 0,
         streak,
         form,
         previousRank: null,
+        tiebreaker: null,
       };
     });
 
-    standings.sort((a, b) => {
-      if (b.points !== a.points) return b.points - a.points;
-      if (b.goalDifference !== a.goalDifference) return b.goalDifference - a.goalDifference;
-      if (b.wins !== a.wins) return b.wins - a.wins;
-      return b.played - a.played;
-    });
-
-    standings.forEach((standing, index) => {
-      standing.rank = index + 1;
+    return rankStandings(standings, {
+      tiebreakers: options.tiebreakers ?? DEFAULT_TEAM_TIEBREAKERS,
+      points,
+      outcomes,
     });
-    return standings;
   }
-
   if (scoringFormat === 'individual_time') {
     const runningComparisonMode = options.runningComparisonMode || 'absolute_performance';
     const stats: Record<string, { played: number; totalTime: number; bestTime: number }> = {};
@@ -368,11 +628,18 @@ export function calculateStandings(
           losses: regressionCount,
           points: normalizedImprovement,
           goalDifference: 0,
+          setsWon: 0,
+          setsLost: 0,
+          gamesWon: 0,
+          gamesLost: 0,
+          setDifference: 0,
+          gameDifference: 0,
           totalTime: runs.reduce((total, run) => total + run.elapsedSeconds, 0),
           totalPoints: normalizedImprovement,
           streak: 0,
           form: [] as Array<'W' | 'L' | 'D'>,
           previousRank: null,
+          tiebreaker: null,
         };
       });
 
@@ -402,11 +669,18 @@ export function calculateStandings(
         losses: 0,
         points: stat.played,
         goalDifference: 0,
+        setsWon: 0,
+        setsLost: 0,
+        gamesWon: 0,
+        gamesLost: 0,
+        setDifference: 0,
+        gameDifference: 0,
         totalTime: stat.totalTime,
         totalPoints: 0,
         streak: 0,
         form: [] as Array<'W' | 'L' | 'D'>,
         previousRank: null,
+        tiebreaker: null,
       };
     });
 
@@ -451,11 +725,18 @@ export function calculateStandings(
         losses: 0,
         points: stat.totalPoints,
         goalDifference: 0,
+        setsWon: 0,
+        setsLost: 0,
+        gamesWon: 0,
+        gamesLost: 0,
+        setDifference: 0,
+        gameDifference: 0,
         totalTime: 0,
         totalPoints: stat.totalPoints,
         streak: 0,
         form: [] as Array<'W' | 'L' | 'D'>,
         previousRank: null,
+        tiebreaker: null,
       };
     });
 
@@ -482,20 +763,29 @@ export function calculateStandings(
       losses: 0,
       points: 0,
       goalDifference: 0,
+      setsWon: 0,
+      setsLost: 0,
+      gamesWon: 0,
+      gamesLost: 0,
+      setDifference: 0,
+      gameDifference: 0,
       totalTime: 0,
       totalPoints: 0,
       streak: 0,
       form: [] as Array<'W' | 'L' | 'D'>,
       previousRank: null,
+      tiebreaker: null,
     }));
   }
 
   // singles + doubles individual view
-  const stats: Record<string, { played: number; wins: number; losses: number }> = {};
+  const points = { ...DEFAULT_MATCH_POINTS, ...options.points };
+  const stats: Record<string, MatchStat> = {};
   for (const member of members) {
-    stats[member.user_id] = { played: 0, wins: 0, losses: 0 };
+    stats[member.user_id] = createMatchStat();
   }
 
+  const outcomes: MatchOutcome[] = [];
   for (const match of completedMatches) {
     if (!match.winner) continue;
     const matchParticipants = relevantParticipants.filter(
@@ -505,20 +795,39 @@ export function calculateStandings(
     const teamB = matchParticipants.filter((participant) => participant.team === 'B');
     const winners = match.winner === 'A' ? teamA : teamB;
     const losers = match.winner === 'A' ? teamB : teamA;
+    outcomes.push({
+      sideA: teamA.map((participant) => participant.user_id),
+      sideB: teamB.map((participant) => participant.user_id),
+      winner: match.winner === 'A' ? 'A' : 'B',
+    });
 
-    for (const participant of winners) {
-      if (!stats[participant.user_id]) {
-        stats[participant.user_id] = { played: 0, wins: 0, losses: 0 };
-      }
-      stats[participant.user_id].played += 1;
-      stats[participant.user_id].wins += 1;
-    }
-    for (const participant of losers) {
-      if (!stats[participant.user_id]) {
-        stats[participant.user_id] = { played: 0, wins: 0, losses: 0 };
+    const sets = getMatchSets(matchParticipants);
+    const totals = getSetTotals(sets);
+    const isCloseLoss = isCloseSetLoss(sets, points);
+
+    for (const [team, isWinner] of [
+      [winners, true],
+      [losers, false],
+    ] as const) {
+      for (const participant of team) {
+        if (!stats[participant.user_id]) {
+          stats[participant.user_id] = createMatchStat();
+        }
+        const stat = stats[participant.user_id];
+        const own = participant.team === 'A' ? totals.A : totals.B;
+        const opponent = participant.team === 'A' ? totals.B : totals.A;
+        stat.played += 1;
+        stat.setsFor += own.sets;
+        stat.setsAgainst += opponent.sets;
+        stat.gamesFor += own.games;
+        stat.gamesAgainst += opponent.games;
+        if (isWinner) {
+          stat.wins += 1;
+        } else {
+          stat.losses += 1;
+          if (isCloseLoss) stat.closeLosses += 1;
+        }
       }
-      stats[participant.user_id].played += 1;
-      stats[participant.user_id].losses += 1;
     }
   }
 
@@ -534,77 +843,123 @@ export function calculateStandings(
       wins: stat.wins,
       draws: 0,
       losses: stat.losses,
-      points: stat.wins,
+      points: getMatchStatPoints(stat, points),
       goalDifference: 0,
+      setsWon: stat.setsFor,
+      setsLost: stat.setsAgainst,
+      gamesWon: stat.gamesFor,
+      gamesLost: stat.gamesAgainst,
+      setDifference: stat.setsFor - stat.setsAgainst,
+      gameDifference: stat.gamesFor - stat.gamesAgainst,
       totalTime: 0,
       totalPoints: 0,
       streak,
       form,
       previousRank: null,
+      tiebreaker: null,
     };
   });
 
-  standings.sort((a, b) => {
-    if (b.wins !== a.wins) return b.wins - a.wins;
-    if (a.losses !== b.losses) return a.losses - b.losses;
-    return b.played - a.played;
+  return rankStandings(standings, {
+    tiebreakers: options.tiebreakers ?? DEFAULT_MATCH_TIEBREAKERS,
+    points,
+    outcomes,
   });
-
-  standings.forEach((standing, index) => {
-    standing.rank = index + 1;
-  });
-  return standings;
 }
 
+/**
+ * Ranks doubles pairs and teams by their own record. A side is keyed by the
+ * team id the match recorded for it, else by its sorted player ids, so a
+ * team fielding a changed lineup stays one row. team_vs_team results come
+ * from the goals scored, like the player table; other formats from the
+ * winning side. Uses the same points and tiebreakers as the player table,
+ * with head-to-head played between whole teams.
+ */
 export function calculateTeamStandings(
+  scoringFormat: string,
   matches: RankingMatch[],
   participants: RankingParticipant[],
-  members: RankingMember[]
+  members: RankingMember[],
+  options: Pick<StandingOptions, 'points' | 'tiebreakers'> = {}
 ): TeamStanding[] {
+  const isTeamFormat = scoringFormat === 'team_vs_team';
+  const points = {
+    ...(isTeamFormat ? DEFAULT_TEAM_POINTS : DEFAULT_MATCH_POINTS),
+    ...options.points,
+  };
   const completedMatches = matches.filter((match) => match.status === 'completed');
   const completedMatchIds = new Set(completedMatches.map((match) => match.id));
   const relevantParticipants = participants.filter((participant) =>
     completedMatchIds.has(participant.match_id)
   );
 
-  const stats: Record<
-    string,
-    { player_ids: string[]; played: number; wins: number; losses: number }
-  > = {};
+  const stats: Record<string, MatchStat & { player_ids: string[] }> = {};
+  const outcomes: MatchOutcome[] = [];
 
   for (const match of completedMatches) {
-    if (!match.winner) continue;
     const matchParticipants = relevantParticipants.filter(
       (participant) => participant.match_id === match.id
     );
-    const sideA = matchParticipants
-      .filter((participant) => participant.team === 'A')
-      .map((participant) => participant.user_id)
-      .sort();
-    const sideB = matchParticipants
-      .filter((participant) => participant.team === 'B')
-      .map((participant) => participant.user_id)
-      .sort();
-
-    if (sideA.length < 2 || sideB.length < 2) continue;
-
-    const sideAKey = sideA.join('+');
-    const sideBKey = sideB.join('+');
-    if (!stats[sideAKey]) {
-      stats[sideAKey] = { player_ids: sideA, played: 0, wins: 0, losses: 0 };
-    }
-    if (!stats[sideBKey]) {
-      stats[sideBKey] = { player_ids: sideB, played: 0, wins: 0, losses: 0 };
+    const teamA = matchParticipants.filter((participant) => participant.team === 'A');
+    const teamB = matchParticipants.filter((participant) => participant.team === 'B');
+    const minimumSide = isTeamFormat ? 1 : 2;
+    if (teamA.length < minimumSide || teamB.length < minimumSide) continue;
+
+    const scoreA = teamA[0]?.score ?? 0;
+    const scoreB = teamB[0]?.score ?? 0;
+    let winner: 'A' | 'B' | 'D';
+    if (isTeamFormat) {
+      winner = scoreA > scoreB ? 'A' : scoreB > scoreA ? 'B' : 'D';
+    } else if (match.winner === 'A' || match.winner === 'B') {
+      winner = match.winner;
+    } else {
+      continue;
     }
 
-    stats[sideAKey].played += 1;
-    stats[sideBKey].played += 1;
-    if (match.winner === 'A') {
-      stats[sideAKey].wins += 1;
-      stats[sideBKey].losses += 1;
-    } else {
-      stats[sideBKey].wins += 1;
-      stats[sideAKey].losses += 1;
+    const sides = (
+      [
+        ['A', teamA, scoreA, scoreB],
+        ['B', teamB, scoreB, scoreA],
+      ] as const
+    ).map(([side, team, goalsFor, goalsAgainst]) => {
+      const playerIds = team.map((participant) => participant.user_id).sort();
+      const key = match.teams?.[side] ?? playerIds.join('+');
+      if (!stats[key]) {
+        stats[key] = { ...createMatchStat(), player_ids: [] };
+      }
+      const stat = stats[key];
+      stat.player_ids = [...new Set([...stat.player_ids, ...playerIds])].sort();
+      return { side, key, stat, goalsFor, goalsAgainst };
+    });
+    outcomes.push({ sideA: [sides[0].key], sideB: [sides[1].key], winner });
+
+    const sets = getMatchSets(matchParticipants);
+    const totals = getSetTotals(sets);
+    const isCloseOnSets = isCloseSetLoss(sets, points);
+    for (const { side, stat, goalsFor, goalsAgainst } of sides) {
+      const own = side === 'A' ? totals.A : totals.B;
+      const opponent = side === 'A' ? totals.B : totals.A;
+      stat.played += 1;
+      stat.setsFor += own.sets;
+      stat.setsAgainst += opponent.sets;
+      stat.gamesFor += own.games;
+      stat.gamesAgainst += opponent.games;
+      if (isTeamFormat) {
+        stat.goalsFor += goalsFor;
+        stat.goalsAgainst += goalsAgainst;
+      }
+
+      if (winner === 'D') {
+        stat.draws += 1;
+      } else if (winner === side) {
+        stat.wins += 1;
+      } else {
+        stat.losses += 1;
+        const isCloseLoss = isTeamFormat
+          ? goalsAgainst - goalsFor <= points.closeLossMargin
+          : isCloseOnSets;
+        if (isCloseLoss) stat.closeLosses += 1;
+      }
     }
   }
 
@@ -618,18 +973,100 @@ export function calculateTeamStandings(
     rank: 0,
     played: stat.played,
     wins: stat.wins,
+    draws: stat.draws,
     losses: stat.losses,
     winPct: stat.played > 0 ? Math.round((stat.wins / stat.played) * 100) : 0,
+    points: getMatchStatPoints(stat, points),
+    goalDifference: stat.goalsFor - stat.goalsAgainst,
+    setsWon: stat.setsFor,
+    setsLost: stat.setsAgainst,
+    gamesWon: stat.gamesFor,
+    gamesLost: stat.gamesAgainst,
+    setDifference: stat.setsFor - stat.setsAgainst,
+    gameDifference: stat.gamesFor - stat.gamesAgainst,
+    tiebreaker: null,
   }));
 
-  standings.sort((a, b) => {
-    if (b.wins !== a.wins) return b.wins - a.wins;
-    if (a.losses !== b.losses) return a.losses - b.losses;
-    return b.winPct - a.winPct;
+  const ranked = orderByTiebreakers(standings, 0, {
+    tiebreakers:
+      options.tiebreakers ?? (isTeamFormat ? DEFAULT_TEAM_TIEBREAKERS : DEFAULT_MATCH_TIEBREAKERS),
+    points,
+    outcomes,
+    getKey: (standing) => standing.team_key,
+    getMetric: (standing, tiebreaker) => {
+      if (tiebreaker === 'points') return standing.points;
+      if (tiebreaker === 'wins') return standing.wins;
+      if (tiebreaker === 'goal_difference') return standing.goalDifference;
+      if (tiebreaker === 'set_difference') return standing.setDifference;
+      if (tiebreaker === 'game_difference') return standing.gameDifference;
+      if (tiebreaker === 'fewest_played') return -standing.played;
+      if (tiebreaker === 'most_played') return standing.played;
+      return 0;
+    },
   });
-
-  standings.forEach((standing, index) => {
+  ranked.forEach((standing, index) => {
     standing.rank = index + 1;
   });
-  return standings;
+  return ranked;
+}
+
+/**
+ * Ranks every pool of a group stage on its own matches. `groupMembers` maps a
+ * pool to the players drawn into it so players without a result still appear.
+ */
+export function calculateGroupStandings(
+  scoringFormat: string,
+  matches: RankingMatch[],
+  participants: RankingParticipant[],
+  members: RankingMember[],
+  groupMembers: Map<string, string[]>,
+  options: StandingOptions = {}
+): GroupStanding[] {
+  return [...groupMembers.keys()].sort().map((group) => {
+    const groupMemberIds = new Set(groupMembers.get(group));
+    return {
+      group,
+      standings: calculateStandings(
+        scoringFormat,
+        matches.filter((match) => match.group === group),
+        participants,
+        members.filter((member) => groupMemberIds.has(member.user_id)),
+        options
+      ),
+    };
+  });
+}
+
+/**
+ * Removes the results of players who are no longer members. Head-to-head
+ * matches they played are dropped for both sides; individual entries such as
+ * runs only lose the departed player's own row.
+ */
+export function excludeDepartedResults(
+  matches: RankingMatch[],
+  participants: RankingParticipant[],
+  memberIds: Set<string>
+): { matches: RankingMatch[]; participants: RankingParticipant[] } {
+  const voidedMatchIds = new Set(
+    participants
+      .filter((participant) => !memberIds.has(participant.user_id) && participant.team !== null)
+      .map((participant) => participant.match_id)
+  );
+
+  return {
+    matches: matches.filter((match) => !voidedMatchIds.has(match.id)),
+    participants: participants.filter(
+      (participant) =>
+        !voidedMatchIds.has(participant.match_id) && memberIds.has(participant.user_id)
+    ),
+  };
+}
+
+/**
+ * Drops rows of players who are no longer members and closes the rank gaps.
+ */
+export function removeDepartedRows(standings: Standing[], memberIds: Set<string>): Standing[] {
+  return standings
+    .filter((standing) => memberIds.has(standing.user_id))
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
 }
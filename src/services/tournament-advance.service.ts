@@ -2,73 +2,375 @@ import { supabaseAdmin } from '../utils/supabase';
 
 type FixtureMetadata = Record<string, unknown>;
 
+export type PropagationResult = {
+  /** Participant rows placed, including chained byes. */
+  placed: number;
+  /** Downstream fixtures whose players changed after they already had a result. */
+  flaggedFixtureIds: string[];
+};
+
+/** Statuses of a fixture that has no result yet, so its players can change freely. */
+const OPEN_STATUSES = new Set(['pending_participants', 'scheduled']);
+
+function getMetadataString(metadata: FixtureMetadata, key: string): string | null {
+  return typeof metadata[key] === 'string' ? (metadata[key] as string) : null;
+}
+
+function getSeed(metadata: FixtureMetadata, side: string): number | null {
+  const value = metadata[side === 'A' ? 'seed_a' : 'seed_b'];
+  return typeof value === 'number' ? value : null;
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function mergeResults(target: PropagationResult, source: PropagationResult): void {
+  target.placed += source.placed;
+  target.flaggedFixtureIds.push(...source.flaggedFixtureIds);
+}
+
 /**
- * After a tournament fixture is finalized, advance the winner to the next bracket fixture.
+ * After a tournament fixture is finalized, advance the winner (and any linked loser) onward.
  * Non-blocking — errors are logged but don't propagate.
  */
 export async function advanceTournamentWinner(
   fixtureId: string,
   winnerSide: string
-): Promise<void> {
+): Promise<PropagationResult | null> {
   try {
-    // Get the fixture metadata to find next_fixture_id
-    const { data: fixture } = await supabaseAdmin
-      .from('league_fixtures')
-      .select('id, league_id, metadata')
-      .eq('id', fixtureId)
-      .single();
+    return await propagateTournamentResult(fixtureId, winnerSide);
+  } catch (error) {
+    console.error('Tournament auto-advance error:', error);
+    return null;
+  }
+}
+
+/**
+ * Moves the winner of a finalized tournament fixture to `next_fixture_id` and
+ * the loser to `loser_next_fixture_id`: the losers bracket in double
+ * elimination, or the third-place match and plate bracket. A grand final
+ * won by the losers-bracket side sends both players to the reset fixture.
+ *
+ * Safe to run again after a result is overturned: each linked slot is
+ * replaced rather than added to, and a downstream fixture that already has a
+ * result is flagged `needs_review` instead of being changed further.
+ */
+export async function propagateTournamentResult(
+  fixtureId: string,
+  winnerSide: string
+): Promise<PropagationResult> {
+  const result: PropagationResult = { placed: 0, flaggedFixtureIds: [] };
+  if (winnerSide !== 'A' && winnerSide !== 'B') return result;
+  const loserSide = winnerSide === 'A' ? 'B' : 'A';
+
+  // Get the fixture metadata to find the linked fixtures
+  const { data: fixture } = await supabaseAdmin
+    .from('league_fixtures')
+    .select('id, league_id, metadata')
+    .eq('id', fixtureId)
+    .single();
+
+  if (!fixture) return result;
 
-    if (!fixture) return;
+  const metadata = fixture.metadata as FixtureMetadata | null;
+  if (!metadata) return result;
 
-    const metadata = fixture.metadata as FixtureMetadata | null;
-    if (!metadata) return;
+  // bracket_slot is 'A' or 'B' indicating which side of the next match this feeds into
+  const nextFixtureId = getMetadataString(metadata, 'next_fixture_id');
+  const bracketSlot = getMetadataString(metadata, 'bracket_slot');
+  if (nextFixtureId && bracketSlot) {
+    mergeResults(
+      result,
+      await placeSide(
+        fixtureId,
+        winnerSide,
+        nextFixtureId,
+        bracketSlot,
+        getSeed(metadata, winnerSide)
+      )
+    );
+  }
+
+  const loserNextFixtureId = getMetadataString(metadata, 'loser_next_fixture_id');
+  const loserBracketSlot = getMetadataString(metadata, 'loser_bracket_slot');
+  if (loserNextFixtureId && loserBracketSlot) {
+    mergeResults(
+      result,
+      await placeSide(
+        fixtureId,
+        loserSide,
+        loserNextFixtureId,
+        loserBracketSlot,
+        getSeed(metadata, loserSide)
+      )
+    );
+  }
 
-    const nextFixtureId = typeof metadata.next_fixture_id === 'string' ? metadata.next_fixture_id : null;
-    const bracketSide = typeof metadata.bracket_slot === 'string' ? metadata.bracket_slot : null;
+  const resetFixtureId = getMetadataString(metadata, 'reset_fixture_id');
+  if (metadata.bracket === 'grand_final' && resetFixtureId) {
+    if (winnerSide === 'B') {
+      // Reopen a reset that an earlier, overturned result had cancelled
+      await supabaseAdmin
+        .from('league_fixtures')
+        .update({ status: 'pending_participants' })
+        .eq('id', resetFixtureId)
+        .eq('status', 'cancelled');
+      mergeResults(
+        result,
+        await placeSide(fixtureId, 'A', resetFixtureId, 'A', getSeed(metadata, 'A'))
+      );
+      mergeResults(
+        result,
+        await placeSide(fixtureId, 'B', resetFixtureId, 'B', getSeed(metadata, 'B'))
+      );
+    } else {
+      mergeResults(result, await cancelResetFixture(fixtureId, resetFixtureId));
+    }
+  }
 
-    if (!nextFixtureId || !bracketSide) return;
+  return result;
+}
 
-    // Determine which side the winner goes to in the next fixture (A or B)
-    // bracket_slot is 'A' or 'B' indicating which side of the next match this feeds into
-    const nextSide = bracketSide;
+/**
+ * Marks a fixture whose players should have changed after it already had a
+ * result, so the organizer can re-resolve it. Its participants and anything
+ * further downstream are left as they are; `review_incoming` records, per
+ * slot, who the corrected result would have placed there.
+ */
+async function flagForReview(
+  targetFixtureId: string,
+  targetMetadata: FixtureMetadata,
+  sourceFixtureId: string,
+  incoming?: { slot: string; userIds: string[] }
+): Promise<void> {
+  await supabaseAdmin
+    .from('league_fixtures')
+    .update({
+      metadata: {
+        ...targetMetadata,
+        needs_review: true,
+        review_reason: 'upstream_result_changed',
+        review_source_fixture_id: sourceFixtureId,
+        ...(incoming
+          ? {
+              review_incoming: {
+                ...toRecord(targetMetadata.review_incoming),
+                [incoming.slot]: incoming.userIds,
+              },
+            }
+          : {}),
+        review_flagged_at: new Date().toISOString(),
+      },
+    })
+    .eq('id', targetFixtureId);
+}
 
-    // Get the winning players
-    const { data: participants } = await supabaseAdmin
+/**
+ * Swaps the players a corrected upstream result sent to a flagged fixture into
+ * its slot. Called when the organizer re-resolves the fixture, so the new
+ * result is recorded against the right players.
+ */
+export async function applyReviewedSlot(
+  fixtureId: string,
+  metadata: FixtureMetadata
+): Promise<void> {
+  if (metadata.needs_review !== true) return;
+  const incoming = toRecord(metadata.review_incoming);
+
+  for (const slot of ['A', 'B']) {
+    const userIds = Array.isArray(incoming[slot])
+      ? (incoming[slot] as unknown[]).filter(
+          (userId): userId is string => typeof userId === 'string'
+        )
+      : [];
+    if (userIds.length === 0) continue;
+
+    const { error: deleteError } = await supabaseAdmin
       .from('league_fixture_participants')
-      .select('user_id, side')
+      .delete()
       .eq('fixture_id', fixtureId)
-      .eq('side', winnerSide);
+      .eq('side', slot);
 
-    if (!participants || participants.length === 0) return;
-
-    // Insert them into the next fixture
-    const participantRows = participants.map((p) => ({
-      fixture_id: nextFixtureId,
-      user_id: p.user_id,
-      side: nextSide,
-      role: 'player',
-    }));
+    if (deleteError) {
+      throw new Error(deleteError.message);
+    }
 
-    await supabaseAdmin
+    const { error: insertError } = await supabaseAdmin
       .from('league_fixture_participants')
-      .insert(participantRows);
+      .insert(
+        userIds.map((userId) => ({
+          fixture_id: fixtureId,
+          user_id: userId,
+          side: slot,
+          role: 'player',
+        }))
+      );
+
+    if (insertError) {
+      throw new Error(insertError.message);
+    }
+  }
+}
+
+async function cancelResetFixture(
+  grandFinalId: string,
+  resetFixtureId: string
+): Promise<PropagationResult> {
+  const { data: reset } = await supabaseAdmin
+    .from('league_fixtures')
+    .select('id, status, metadata')
+    .eq('id', resetFixtureId)
+    .single();
+
+  if (!reset || reset.status === 'cancelled') return { placed: 0, flaggedFixtureIds: [] };
+
+  if (!OPEN_STATUSES.has(reset.status)) {
+    const resetMetadata = (reset.metadata as FixtureMetadata | null) || {};
+    await flagForReview(resetFixtureId, resetMetadata, grandFinalId);
+    return { placed: 0, flaggedFixtureIds: [resetFixtureId] };
+  }
 
-    // Check if both sides of the next fixture now have participants
-    const { data: nextParticipants } = await supabaseAdmin
+  const { error: deleteError } = await supabaseAdmin
+    .from('league_fixture_participants')
+    .delete()
+    .eq('fixture_id', resetFixtureId);
+
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+
+  await supabaseAdmin
+    .from('league_fixtures')
+    .update({ status: 'cancelled' })
+    .eq('id', resetFixtureId);
+  return { placed: 0, flaggedFixtureIds: [] };
+}
+
+async function placeSide(
+  fixtureId: string,
+  side: string,
+  targetFixtureId: string,
+  targetSide: string,
+  seed: number | null
+): Promise<PropagationResult> {
+  const result: PropagationResult = { placed: 0, flaggedFixtureIds: [] };
+
+  // Get the players on the advancing side
+  const { data: participants } = await supabaseAdmin
+    .from('league_fixture_participants')
+    .select('user_id, side')
+    .eq('fixture_id', fixtureId)
+    .eq('side', side);
+
+  if (!participants || participants.length === 0) return result;
+
+  const { data: target } = await supabaseAdmin
+    .from('league_fixtures')
+    .select('id, status, metadata')
+    .eq('id', targetFixtureId)
+    .single();
+
+  if (!target) return result;
+
+  let targetMetadata = (target.metadata as FixtureMetadata | null) || {};
+
+  // Each slot has exactly one feeder, so whoever holds it came from this fixture
+  const { data: currentRows } = await supabaseAdmin
+    .from('league_fixture_participants')
+    .select('user_id')
+    .eq('fixture_id', targetFixtureId)
+    .eq('side', targetSide);
+
+  const incomingIds = participants.map((p) => p.user_id).sort();
+  const currentIds = (currentRows || []).map((row) => row.user_id).sort();
+  if (incomingIds.join('+') === currentIds.join('+')) return result;
+
+  const isReplacement = currentIds.length > 0;
+  // A played fixture keeps the players its result belongs to; the organizer re-resolves it
+  if (isReplacement && !OPEN_STATUSES.has(target.status) && targetMetadata.is_bye !== true) {
+    await flagForReview(targetFixtureId, targetMetadata, fixtureId, {
+      slot: targetSide,
+      userIds: incomingIds,
+    });
+    result.flaggedFixtureIds.push(targetFixtureId);
+    return result;
+  }
+
+  if (isReplacement) {
+    const { error: deleteError } = await supabaseAdmin
       .from('league_fixture_participants')
-      .select('side')
-      .eq('fixture_id', nextFixtureId);
+      .delete()
+      .eq('fixture_id', targetFixtureId)
+      .eq('side', targetSide);
 
-    const sides = new Set((nextParticipants || []).map((p) => p.side));
-    if (sides.has('A') && sides.has('B')) {
-      // Both sides filled — update status from 'pending_participants' to 'scheduled'
-      await supabaseAdmin
-        .from('league_fixtures')
-        .update({ status: 'scheduled' })
-        .eq('id', nextFixtureId)
-        .eq('status', 'pending_participants');
+    if (deleteError) {
+      throw new Error(deleteError.message);
     }
-  } catch (error) {
-    console.error('Tournament auto-advance error:', error);
   }
+
+  // Insert them into the target fixture
+  const participantRows = participants.map((p) => ({
+    fixture_id: targetFixtureId,
+    user_id: p.user_id,
+    side: targetSide,
+    role: 'player',
+  }));
+
+  const { error: insertError } = await supabaseAdmin
+    .from('league_fixture_participants')
+    .insert(participantRows);
+
+  if (insertError) {
+    throw new Error(insertError.message);
+  }
+
+  result.placed += participantRows.length;
+
+  // Carry the seed number forward so later rounds can still show it
+  if (getSeed(targetMetadata, targetSide) !== seed) {
+    targetMetadata = { ...targetMetadata, [targetSide === 'A' ? 'seed_a' : 'seed_b']: seed };
+    await supabaseAdmin
+      .from('league_fixtures')
+      .update({ metadata: targetMetadata })
+      .eq('id', targetFixtureId);
+  }
+
+  // A structural bye has no opponent coming; the arriving side advances straight away
+  if (targetMetadata.is_bye === true) {
+    await supabaseAdmin
+      .from('league_fixtures')
+      .update({
+        status: 'finalized',
+        metadata: {
+          ...targetMetadata,
+          final_result: { winner: targetSide, bye: true },
+        },
+      })
+      .eq('id', targetFixtureId);
+    mergeResults(result, await propagateTournamentResult(targetFixtureId, targetSide));
+    return result;
+  }
+
+  if (target.status !== 'pending_participants') return result;
+
+  // Check if both sides of the target fixture now have participants
+  const { data: targetParticipants } = await supabaseAdmin
+    .from('league_fixture_participants')
+    .select('side')
+    .eq('fixture_id', targetFixtureId);
+
+  const sides = new Set((targetParticipants || []).map((p) => p.side));
+  if (sides.has('A') && sides.has('B')) {
+    // Both sides filled — update status from 'pending_participants' to 'scheduled'
+    await supabaseAdmin
+      .from('league_fixtures')
+      .update({ status: 'scheduled' })
+      .eq('id', targetFixtureId)
+      .eq('status', 'pending_participants');
+  }
+
+  return result;
 }
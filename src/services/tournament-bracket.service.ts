@@ -0,0 +1,174 @@
+import { supabaseAdmin } from '../utils/supabase';
+import { propagateTournamentResult } from './tournament-advance.service';
+import { withRollback, type CreatedRows } from './fixture-rollback.service';
+import {
+  getBracketRoundCount,
+  getBracketRoundLabel,
+  type TournamentFixture,
+} from './tournament-schedule.service';
+
+export type CreateTournamentBracketInput = {
+  leagueId: string;
+  userId: string;
+  /** Omitted for fixtures that are not tied to a season (e.g. playoffs). */
+  seasonId?: string | null;
+  courtId: string | null;
+  fixtures: TournamentFixture[];
+  /** Written on every fixture alongside the bracket position. */
+  metadata: Record<string, unknown>;
+  /** Label prefix for early main-bracket rounds, e.g. "Round" or "Playoff Round". */
+  roundPrefix: string;
+  weekNumber: (fixture: TournamentFixture) => number | null;
+};
+
+export type CreatedTournamentBracket = {
+  createdFixtures: number;
+  createdParticipants: number;
+  fixtureIds: Map<number, string>;
+};
+
+export class TournamentBracketError extends Error {
+  statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Inserts a generated bracket, links every fixture to where its winner and
+ * loser go next, then auto-advances first-round byes. If any step fails the
+ * fixtures created so far are deleted again, so nothing partial is left.
+ */
+export async function createTournamentBracket(
+  input: CreateTournamentBracketInput
+): Promise<CreatedTournamentBracket> {
+  return withRollback((created) => insertTournamentBracket(input, created));
+}
+
+async function insertTournamentBracket(
+  input: CreateTournamentBracketInput,
+  created: CreatedRows
+): Promise<CreatedTournamentBracket> {
+  const { fixtures } = input;
+  const fixtureIds = new Map<number, string>(); // matchNumber -> fixtureId
+  const metadataByMatch = new Map<number, Record<string, unknown>>();
+  let createdFixtures = 0;
+  let createdParticipants = 0;
+
+  // Create all fixtures first, then link them with next_fixture_id
+  for (const entry of fixtures) {
+    const hasPlayers = entry.sideA.length > 0 || entry.sideB.length > 0;
+    const metadata: Record<string, unknown> = {
+      ...input.metadata,
+      tournament: true,
+      bracket: entry.bracket,
+      round: entry.round,
+      stage: entry.stage,
+      match_number: entry.matchNumber,
+      seed_a: entry.seedA,
+      seed_b: entry.seedB,
+      round_label: getBracketRoundLabel(entry, fixtures, input.roundPrefix),
+      total_rounds: getBracketRoundCount(entry.bracket, fixtures),
+      is_bye: entry.isBye,
+      // Auto-finalize byes — the player without an opponent advances
+      ...(entry.isBye && hasPlayers
+        ? { final_result: { winner: entry.sideA.length > 0 ? 'A' : 'B', bye: true } }
+        : {}),
+    };
+
+    const { data: fixture, error: fixtureError } = await supabaseAdmin
+      .from('league_fixtures')
+      .insert({
+        league_id: input.leagueId,
+        week_number: input.weekNumber(entry),
+        fixture_type: 'tournament_match',
+        status: entry.isBye && hasPlayers ? 'finalized' :
+          (entry.sideA.length > 0 && entry.sideB.length > 0) ? 'scheduled' : 'pending_participants',
+        court_id: input.courtId,
+        metadata,
+        ...(input.seasonId !== undefined ? { season_id: input.seasonId } : {}),
+        created_by: input.userId,
+      })
+      .select('id')
+      .single();
+
+    if (fixtureError || !fixture) {
+      throw new TournamentBracketError(
+        500,
+        fixtureError?.message || 'Failed to create tournament fixture'
+      );
+    }
+
+    created.fixtureIds.push(fixture.id);
+    fixtureIds.set(entry.matchNumber, fixture.id);
+    metadataByMatch.set(entry.matchNumber, metadata);
+    createdFixtures++;
+
+    // Insert participants for fixtures that already have players
+    const participantRows = [
+      ...entry.sideA.map((playerId) => ({
+        fixture_id: fixture.id,
+        user_id: playerId,
+        side: 'A',
+        role: 'player',
+      })),
+      ...entry.sideB.map((playerId) => ({
+        fixture_id: fixture.id,
+        user_id: playerId,
+        side: 'B',
+        role: 'player',
+      })),
+    ];
+
+    if (participantRows.length > 0) {
+      const { error: participantError } = await supabaseAdmin
+        .from('league_fixture_participants')
+        .insert(participantRows);
+
+      if (participantError) {
+        throw new TournamentBracketError(500, participantError.message);
+      }
+      createdParticipants += participantRows.length;
+    }
+  }
+
+  const resetFixture = fixtures.find((entry) => entry.bracket === 'grand_final_reset');
+
+  for (const entry of fixtures) {
+    const links: Record<string, unknown> = {};
+    if (entry.nextMatchNumber !== null && entry.nextSlot) {
+      links.next_fixture_id = fixtureIds.get(entry.nextMatchNumber);
+      links.bracket_slot = entry.nextSlot;
+    }
+    if (entry.loserNextMatchNumber !== null && entry.loserNextSlot) {
+      links.loser_next_fixture_id = fixtureIds.get(entry.loserNextMatchNumber);
+      links.loser_bracket_slot = entry.loserNextSlot;
+    }
+    if (entry.bracket === 'grand_final' && resetFixture) {
+      links.reset_fixture_id = fixtureIds.get(resetFixture.matchNumber);
+    }
+    if (Object.keys(links).length === 0) continue;
+
+    const { error: linkError } = await supabaseAdmin
+      .from('league_fixtures')
+      .update({ metadata: { ...metadataByMatch.get(entry.matchNumber), ...links } })
+      .eq('id', fixtureIds.get(entry.matchNumber));
+
+    if (linkError) {
+      throw new TournamentBracketError(500, linkError.message);
+    }
+  }
+
+  // If a first-round fixture was a bye, auto-advance its player now
+  for (const entry of fixtures) {
+    if (!entry.isBye) continue;
+    const byeSide = entry.sideA.length > 0 ? 'A' : entry.sideB.length > 0 ? 'B' : null;
+    const fixtureId = fixtureIds.get(entry.matchNumber);
+    if (!byeSide || !fixtureId) continue;
+    createdParticipants += (await propagateTournamentResult(fixtureId, byeSide)).placed;
+  }
+
+  return { createdFixtures, createdParticipants, fixtureIds };
+}
@@ -0,0 +1,128 @@
+import { supabaseAdmin } from '../utils/supabase';
+import { getLeague } from './league.service';
+import { loadLeagueStandings } from './league-standings-read.service';
+import { createTournamentBracket } from './tournament-bracket.service';
+import {
+  generateSingleEliminationSchedule,
+  getPoolQualifiers,
+} from './tournament-schedule.service';
+
+type PoolFixtureRow = {
+  id: string;
+  status: string;
+  week_number: number | null;
+  created_by: string;
+  metadata: Record<string, unknown> | null;
+};
+
+/**
+ * Once every pool fixture of a group-stage tournament is finalized, seeds the
+ * top finishers of each pool into a single-elimination knockout bracket.
+ * Only the finalized fixture's league and season are considered. Returns
+ * false when that fixture is not a pool match, pools are still running, or
+ * the knockout already exists or is being created.
+ */
+export async function generatePoolKnockoutIfReady(fixtureId: string): Promise<boolean> {
+  const { data: finalized, error: finalizedError } = await supabaseAdmin
+    .from('league_fixtures')
+    .select('id, league_id, season_id, metadata')
+    .eq('id', fixtureId)
+    .single();
+
+  if (finalizedError || !finalized) {
+    throw new Error(finalizedError?.message || 'Fixture not found');
+  }
+
+  const finalizedMetadata = (finalized.metadata as Record<string, unknown> | null) || {};
+  if (typeof finalizedMetadata.pool !== 'string') return false;
+
+  const leagueId: string = finalized.league_id;
+  const seasonId: string | null = finalized.season_id ?? null;
+  let fixtureQuery = supabaseAdmin
+    .from('league_fixtures')
+    .select('id, status, week_number, created_by, metadata')
+    .eq('league_id', leagueId)
+    .neq('status', 'cancelled');
+  fixtureQuery = seasonId
+    ? fixtureQuery.eq('season_id', seasonId)
+    : fixtureQuery.is('season_id', null);
+
+  const { data: fixtureRows, error: fixtureError } = await fixtureQuery;
+
+  if (fixtureError) {
+    throw new Error(fixtureError.message);
+  }
+
+  const fixtures = (fixtureRows || []) as PoolFixtureRow[];
+  const poolFixtures = fixtures.filter((fixture) => typeof fixture.metadata?.pool === 'string');
+  if (poolFixtures.length === 0) return false;
+  if (poolFixtures.some((fixture) => fixture.status !== 'finalized')) return false;
+  if (fixtures.some((fixture) => fixture.metadata?.pool_knockout === true)) return false;
+
+  const league = await getLeague(leagueId);
+  const standingsPayload = await loadLeagueStandings(leagueId);
+  if (!league || !standingsPayload) return false;
+
+  const advancePerPool =
+    typeof finalizedMetadata.advance_per_pool === 'number'
+      ? finalizedMetadata.advance_per_pool
+      : 2;
+  const qualifiers = getPoolQualifiers(
+    standingsPayload.groupStandings.map((group) =>
+      group.standings.map((standing) => standing.user_id)
+    ),
+    advancePerPool
+  );
+  if (qualifiers.length < 2) return false;
+
+  const bracketFixtures = generateSingleEliminationSchedule(qualifiers, 'manual', qualifiers);
+  const poolWeeks = Math.max(0, ...poolFixtures.map((fixture) => fixture.week_number ?? 0));
+
+  // Concurrent finalizations race to here; only the one that marks the first
+  // pool fixture goes on to create the bracket. The mark only lands while
+  // that fixture's metadata is still what was read, so nothing newer is lost.
+  const anchor = [...poolFixtures].sort((a, b) => a.id.localeCompare(b.id))[0];
+  const anchorMetadata = anchor.metadata || {};
+  if (anchorMetadata.knockout_claimed_at) return false;
+  const claimedMetadata = { ...anchorMetadata, knockout_claimed_at: new Date().toISOString() };
+  const { data: claimedRows, error: claimError } = await supabaseAdmin
+    .from('league_fixtures')
+    .update({ metadata: claimedMetadata })
+    .eq('id', anchor.id)
+    .eq('metadata', JSON.stringify(anchorMetadata))
+    .select('id');
+
+  if (claimError) {
+    throw new Error(claimError.message);
+  }
+  if (!claimedRows || claimedRows.length === 0) return false;
+
+  try {
+    await createTournamentBracket({
+      leagueId,
+      userId: poolFixtures[0].created_by,
+      seasonId,
+      courtId: league.default_court_id || null,
+      fixtures: bracketFixtures,
+      metadata: {
+        generated: true,
+        sport: league.sport_type,
+        scoring_format: league.scoring_format,
+        bracket_type: 'single_elimination',
+        pool_knockout: true,
+      },
+      roundPrefix: 'Knockout Round',
+      weekNumber: (entry) => poolWeeks + entry.stage,
+    });
+  } catch (error) {
+    // Release the claim so the next finalization can retry
+    await supabaseAdmin
+      .from('league_fixtures')
+      .update({ metadata: anchorMetadata })
+      .eq('id', anchor.id)
+      .eq('metadata', JSON.stringify(claimedMetadata));
+    throw error;
+  }
+
+  return true;
+}
@@ -1,9 +1,62 @@
+import {
+  generateSinglesSchedule,
+  getRoundRobinRoundCount,
+  type ScheduledFixture,
+} from './fixture-schedule.service';
+import { shuffle, type RandomSource } from '../utils/random';
+
+export type BracketSlot = 'A' | 'B';
+
+export type BracketKind =
+  | 'main'
+  | 'winners'
+  | 'losers'
+  | 'grand_final'
+  | 'grand_final_reset'
+  | 'third_place'
+  | 'consolation';
+
+export type BracketType = 'single_elimination' | 'double_elimination';
+
 export type TournamentFixture = {
   round: number;
   matchNumber: number;
   sideA: string[];
   sideB: string[];
+  /** Seed numbers of first-round entrants; null for TBD sides and random draws. */
+  seedA: number | null;
+  seedB: number | null;
   isBye: boolean;
+  bracket: BracketKind;
+  /** Play order across brackets; equals `round` for single elimination. */
+  stage: number;
+  nextMatchNumber: number | null;
+  nextSlot: BracketSlot | null;
+  loserNextMatchNumber: number | null;
+  loserNextSlot: BracketSlot | null;
+};
+
+export type SingleEliminationOptions = {
+  /** Semi-final losers play off for third place. */
+  thirdPlace?: boolean;
+  /** First-round losers play a knockout plate bracket of their own. */
+  consolation?: boolean;
+};
+
+export type DoubleEliminationOptions = {
+  /** Play a second grand final when the losers-bracket finalist wins the first. */
+  grandFinalReset?: boolean;
+};
+
+export type PoolFixture = ScheduledFixture & {
+  pool: string;
+};
+
+export type PoolPlaySchedule = {
+  pools: string[][];
+  fixtures: PoolFixture[];
+  /** Rounds needed by the largest pool. */
+  weeks: number;
 };
 
 function nextPowerOf2(n: number): number {
@@ -12,80 +65,421 @@ function nextPowerOf2(n: number): number {
   return p;
 }
 
-function fisherYatesShuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
+function createFixture(
+  bracket: BracketKind,
+  round: number,
+  stage: number,
+  sideA: string[] = [],
+  sideB: string[] = [],
+  seedA: number | null = null,
+  seedB: number | null = null
+): TournamentFixture {
+  return {
+    round,
+    matchNumber: 0,
+    sideA,
+    sideB,
+    seedA,
+    seedB,
+    isBye: false,
+    bracket,
+    stage,
+    nextMatchNumber: null,
+    nextSlot: null,
+    loserNextMatchNumber: null,
+    loserNextSlot: null,
+  };
+}
+
+type BracketEntry = {
+  id: string;
+  seed: number | null;
+};
+
+/**
+ * Seed numbers in bracket-slot order for a power-of-two bracket: 1 v N,
+ * 2 v N-1, … arranged so the top two seeds can only meet in the final.
+ */
+export function getStandardSeedOrder(bracketSize: number): number[] {
+  let order = [1];
+  while (order.length < bracketSize) {
+    const size = order.length * 2;
+    order = order.flatMap((seed) => [seed, size + 1 - seed]);
+  }
+  return order;
+}
+
+function buildFirstRoundSlots(
+  memberIds: string[],
+  seeding: 'random' | 'manual',
+  manualOrder: string[] | undefined,
+  random: RandomSource
+): (BracketEntry | null)[] {
+  const bracketSize = nextPowerOf2(memberIds.length);
+  const isManual = seeding === 'manual' && manualOrder?.length === memberIds.length;
+
+  // Seed order
+  const seeded = isManual ? manualOrder : shuffle(memberIds, random);
+
+  // Seeds beyond the field are byes, so the top seeds receive them
+  return getStandardSeedOrder(bracketSize).map((seed) =>
+    seed <= seeded.length ? { id: seeded[seed - 1], seed: isManual ? seed : null } : null
+  );
+}
+
+/**
+ * Builds winners-bracket style rounds from first-round slots. Links between
+ * rounds are added separately by collectWinnerLinks.
+ */
+function buildEliminationRounds(
+  slots: (BracketEntry | null)[],
+  bracket: BracketKind,
+  stageForRound: (round: number) => number
+): TournamentFixture[][] {
+  const rounds: TournamentFixture[][] = [];
+  const firstRound: TournamentFixture[] = [];
+
+  for (let i = 0; i < slots.length; i += 2) {
+    const a = slots[i];
+    const b = slots[i + 1];
+    firstRound.push(
+      createFixture(
+        bracket,
+        1,
+        stageForRound(1),
+        a ? [a.id] : [],
+        b ? [b.id] : [],
+        a?.seed ?? null,
+        b?.seed ?? null
+      )
+    );
+  }
+  rounds.push(firstRound);
+
+  let round = 1;
+  while (rounds[round - 1].length > 1) {
+    round += 1;
+    const previous = rounds[round - 2];
+    const current: TournamentFixture[] = [];
+    for (let m = 0; m < previous.length / 2; m++) {
+      current.push(createFixture(bracket, round, stageForRound(round)));
+    }
+    rounds.push(current);
+  }
+
+  return rounds;
+}
+
+type FixtureLink = {
+  from: TournamentFixture;
+  to: TournamentFixture;
+  slot: BracketSlot;
+  kind: 'winner' | 'loser';
+};
+
+/**
+ * Numbers fixtures in order, resolves links to match numbers and marks
+ * structural byes: a side that no player can ever reach makes the fixture a
+ * bye, and fixtures no player can reach at all are dropped.
+ */
+function finalizeBracket(ordered: TournamentFixture[], links: FixtureLink[]): TournamentFixture[] {
+  const live = new Map<TournamentFixture, { a: boolean; b: boolean }>();
+  const winnerLive = (fixture: TournamentFixture) => {
+    const state = live.get(fixture);
+    return !!state && (state.a || state.b);
+  };
+  const loserLive = (fixture: TournamentFixture) => {
+    const state = live.get(fixture);
+    return !!state && state.a && state.b;
+  };
+
+  for (const fixture of ordered) {
+    const incoming = links.filter((link) => link.to === fixture);
+    const slotLive = (slot: BracketSlot, players: string[]) =>
+      players.length > 0 ||
+      incoming.some(
+        (link) =>
+          link.slot === slot &&
+          (link.kind === 'winner' ? winnerLive(link.from) : loserLive(link.from))
+      );
+    // The reset is filled by both grand finalists, never through a single link.
+    const state =
+      fixture.bracket === 'grand_final_reset'
+        ? { a: true, b: true }
+        : { a: slotLive('A', fixture.sideA), b: slotLive('B', fixture.sideB) };
+    live.set(fixture, state);
+    fixture.isBye = state.a !== state.b;
+  }
+
+  const kept = ordered.filter((fixture) => winnerLive(fixture));
+  kept.forEach((fixture, index) => {
+    fixture.matchNumber = index + 1;
+    fixture.nextMatchNumber = null;
+    fixture.nextSlot = null;
+    fixture.loserNextMatchNumber = null;
+    fixture.loserNextSlot = null;
+  });
+
+  for (const link of links) {
+    if (!kept.includes(link.to) || !kept.includes(link.from)) continue;
+    if (link.kind === 'winner') {
+      link.from.nextMatchNumber = link.to.matchNumber;
+      link.from.nextSlot = link.slot;
+    } else if (loserLive(link.from)) {
+      link.from.loserNextMatchNumber = link.to.matchNumber;
+      link.from.loserNextSlot = link.slot;
+    }
+  }
+
+  return kept;
+}
+
+function collectWinnerLinks(rounds: TournamentFixture[][]): FixtureLink[] {
+  const links: FixtureLink[] = [];
+  for (let r = 0; r < rounds.length - 1; r++) {
+    rounds[r].forEach((fixture, index) => {
+      links.push({
+        from: fixture,
+        to: rounds[r + 1][Math.floor(index / 2)],
+        slot: index % 2 === 0 ? 'A' : 'B',
+        kind: 'winner',
+      });
+    });
   }
-  return a;
+  return links;
 }
 
 /**
  * Generates a single-elimination bracket.
- * Returns fixtures for all rounds, including byes in round 1.
+ * Returns fixtures for all rounds, including byes in round 1. Players are
+ * placed 1 v N, 2 v N-1, … with byes going to the top seeds.
  * Later rounds have empty sides (TBD) that get filled via auto-advance.
+ * Optionally adds a third-place match fed by the semi-final losers and a
+ * consolation (plate) bracket fed by the first-round losers.
  */
 export function generateSingleEliminationSchedule(
   memberIds: string[],
   seeding: 'random' | 'manual' = 'random',
-  manualOrder?: string[]
+  manualOrder?: string[],
+  random: RandomSource = Math.random,
+  options: SingleEliminationOptions = {}
 ): TournamentFixture[] {
-  const count = memberIds.length;
-  if (count < 2) return [];
+  if (memberIds.length < 2) return [];
 
-  const bracketSize = nextPowerOf2(count);
-  const totalRounds = Math.log2(bracketSize);
-  const numByes = bracketSize - count;
+  const slots = buildFirstRoundSlots(memberIds, seeding, manualOrder, random);
+  const rounds = buildEliminationRounds(slots, 'main', (round) => round);
+  const links = collectWinnerLinks(rounds);
+  const ordered = rounds.flat();
 
-  // Seed order
-  const seeded =
-    seeding === 'manual' && manualOrder?.length === count
-      ? manualOrder
-      : fisherYatesShuffle(memberIds);
+  // Plate round r is played alongside main round r + 1
+  const firstRound = rounds[0];
+  if (options.consolation && firstRound.length >= 2) {
+    const plateSlots = firstRound.map(() => null);
+    const plate = buildEliminationRounds(plateSlots, 'consolation', (round) => round + 1);
+    plate[0].forEach((fixture, index) => {
+      links.push({ from: firstRound[2 * index], to: fixture, slot: 'A', kind: 'loser' });
+      links.push({ from: firstRound[2 * index + 1], to: fixture, slot: 'B', kind: 'loser' });
+    });
+    links.push(...collectWinnerLinks(plate));
+    ordered.push(...plate.flat());
+  }
 
-  // Place players into bracket slots with byes at the bottom
-  const slots: (string | null)[] = new Array(bracketSize).fill(null);
-  for (let i = 0; i < seeded.length; i++) {
-    slots[i] = seeded[i];
+  if (options.thirdPlace && rounds.length >= 2) {
+    const semiFinals = rounds[rounds.length - 2];
+    const thirdPlace = createFixture('third_place', 1, rounds.length);
+    links.push({ from: semiFinals[0], to: thirdPlace, slot: 'A', kind: 'loser' });
+    links.push({ from: semiFinals[1], to: thirdPlace, slot: 'B', kind: 'loser' });
+    ordered.push(thirdPlace);
   }
 
-  const fixtures: TournamentFixture[] = [];
-  let matchNumber = 1;
+  return finalizeBracket(ordered, links);
+}
 
-  // Round 1: pair up slots
-  for (let i = 0; i < bracketSize; i += 2) {
-    const a = slots[i];
-    const b = slots[i + 1];
-    const isBye = a === null || b === null;
-
-    fixtures.push({
-      round: 1,
-      matchNumber,
-      sideA: a ? [a] : [],
-      sideB: b ? [b] : [],
-      isBye,
-    });
-    matchNumber++;
-  }
+/**
+ * Generates a double-elimination bracket: a winners bracket, a losers bracket
+ * fed by winners-bracket losers, and a grand final with an optional reset.
+ * Later fixtures have empty sides (TBD) that get filled via auto-advance.
+ */
+export function generateDoubleEliminationSchedule(
+  memberIds: string[],
+  seeding: 'random' | 'manual' = 'random',
+  manualOrder?: string[],
+  options: DoubleEliminationOptions = {},
+  random: RandomSource = Math.random
+): TournamentFixture[] {
+  if (memberIds.length < 2) return [];
+
+  const slots = buildFirstRoundSlots(memberIds, seeding, manualOrder, random);
+  const winners = buildEliminationRounds(slots, 'winners', (round) =>
+    round === 1 ? 1 : 2 * round - 2
+  );
+  const links = collectWinnerLinks(winners);
+  const k = winners.length;
 
-  // Subsequent rounds: empty fixtures (filled by auto-advance)
-  let matchesInRound = bracketSize / 2;
-  for (let round = 2; round <= totalRounds; round++) {
-    matchesInRound = matchesInRound / 2;
-    for (let m = 0; m < matchesInRound; m++) {
-      fixtures.push({
-        round,
-        matchNumber,
-        sideA: [],
-        sideB: [],
-        isBye: false,
+  // Losers round m plays at stage m + 1; even rounds take the next winners-round losers.
+  const losers: TournamentFixture[][] = [];
+  for (let m = 1; m <= 2 * (k - 1); m++) {
+    const current: TournamentFixture[] = [];
+    if (m === 1) {
+      for (let i = 0; i < winners[0].length / 2; i++) {
+        const fixture = createFixture('losers', m, m + 1);
+        links.push({ from: winners[0][2 * i], to: fixture, slot: 'A', kind: 'loser' });
+        links.push({ from: winners[0][2 * i + 1], to: fixture, slot: 'B', kind: 'loser' });
+        current.push(fixture);
+      }
+    } else if (m % 2 === 0) {
+      const dropping = winners[m / 2];
+      const previous = losers[m - 2];
+      previous.forEach((feeder, i) => {
+        const fixture = createFixture('losers', m, m + 1);
+        // Reverse every other drop-in round to delay rematches from the winners bracket.
+        const dropIndex = (m / 2) % 2 === 1 ? dropping.length - 1 - i : i;
+        links.push({ from: feeder, to: fixture, slot: 'A', kind: 'winner' });
+        links.push({ from: dropping[dropIndex], to: fixture, slot: 'B', kind: 'loser' });
+        current.push(fixture);
       });
-      matchNumber++;
+    } else {
+      const previous = losers[m - 2];
+      for (let i = 0; i < previous.length / 2; i++) {
+        const fixture = createFixture('losers', m, m + 1);
+        links.push({ from: previous[2 * i], to: fixture, slot: 'A', kind: 'winner' });
+        links.push({ from: previous[2 * i + 1], to: fixture, slot: 'B', kind: 'winner' });
+        current.push(fixture);
+      }
     }
+    losers.push(current);
   }
 
-  return fixtures;
+  const winnersFinal = winners[k - 1][0];
+  const grandFinal = createFixture('grand_final', 1, 2 * k);
+  links.push({ from: winnersFinal, to: grandFinal, slot: 'A', kind: 'winner' });
+  if (losers.length > 0) {
+    links.push({ from: losers[losers.length - 1][0], to: grandFinal, slot: 'B', kind: 'winner' });
+  } else {
+    links.push({ from: winnersFinal, to: grandFinal, slot: 'B', kind: 'loser' });
+  }
+
+  const ordered = [...winners.flat(), ...losers.flat(), grandFinal];
+  if (options.grandFinalReset !== false) {
+    ordered.push(createFixture('grand_final_reset', 1, 2 * k + 1));
+  }
+
+  return finalizeBracket(ordered, links);
+}
+
+/**
+ * Turns a bracket drawn over team keys into one over players: each side gets
+ * every player of its team, so results and advancement move the whole team.
+ */
+export function expandTeamSides(
+  fixtures: TournamentFixture[],
+  playersByTeam: Map<string, string[]>
+): TournamentFixture[] {
+  const expand = (side: string[]) => side.flatMap((key) => playersByTeam.get(key) ?? [key]);
+  return fixtures.map((fixture) => ({
+    ...fixture,
+    sideA: expand(fixture.sideA),
+    sideB: expand(fixture.sideB),
+  }));
+}
+
+/**
+ * Pool name shown to players: A, B, C, …
+ */
+export function getPoolLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Splits players into round-robin pools and schedules each one with
+ * generateSinglesSchedule. The seed order snakes across pools so every pool
+ * gets a similar spread of seeds.
+ */
+export function generatePoolPlaySchedule(
+  memberIds: string[],
+  poolCount: number,
+  seeding: 'random' | 'manual' = 'random',
+  manualOrder?: string[],
+  random: RandomSource = Math.random
+): PoolPlaySchedule {
+  const seeded =
+    seeding === 'manual' && manualOrder?.length === memberIds.length
+      ? manualOrder
+      : shuffle(memberIds, random);
+
+  const pools: string[][] = Array.from({ length: poolCount }, () => []);
+  seeded.forEach((memberId, index) => {
+    const lap = Math.floor(index / poolCount);
+    const offset = index % poolCount;
+    pools[lap % 2 === 0 ? offset : poolCount - 1 - offset].push(memberId);
+  });
+
+  const fixtures = pools.flatMap((pool, index) =>
+    generateSinglesSchedule(pool, getRoundRobinRoundCount(pool.length)).map((fixture) => ({
+      ...fixture,
+      pool: getPoolLabel(index),
+    }))
+  );
+
+  return {
+    pools,
+    fixtures,
+    weeks: Math.max(0, ...pools.map((pool) => getRoundRobinRoundCount(pool.length))),
+  };
+}
+
+/**
+ * Knockout seed order from ranked pools: every pool winner first, then every
+ * runner-up, and so on, so pool winners take the top seeds.
+ */
+export function getPoolQualifiers(rankedPools: string[][], advancePerPool: number): string[] {
+  const qualifiers: string[] = [];
+  for (let place = 0; place < advancePerPool; place++) {
+    for (const pool of rankedPools) {
+      if (pool[place]) qualifiers.push(pool[place]);
+    }
+  }
+  return qualifiers;
+}
+
+/**
+ * Display label for a bracket fixture. `roundPrefix` names early main-bracket
+ * rounds (e.g. "Round 1" or "Playoff Round 1").
+ */
+export function getBracketRoundLabel(
+  fixture: TournamentFixture,
+  fixtures: TournamentFixture[],
+  roundPrefix = 'Round'
+): string {
+  if (fixture.bracket === 'grand_final') return 'Grand Final';
+  if (fixture.bracket === 'grand_final_reset') return 'Grand Final Reset';
+  if (fixture.bracket === 'third_place') return 'Third Place';
+
+  const totalRounds = getBracketRoundCount(fixture.bracket, fixtures);
+  if (fixture.bracket === 'losers') {
+    return fixture.round === totalRounds ? 'Losers Final' : `Losers Round ${fixture.round}`;
+  }
+
+  const prefix =
+    fixture.bracket === 'winners' ? 'Winners ' : fixture.bracket === 'consolation' ? 'Plate ' : '';
+  if (fixture.round === totalRounds) return `${prefix}Final`;
+  if (fixture.round === totalRounds - 1) return `${prefix}Semi-Final`;
+  return fixture.bracket === 'main'
+    ? `${roundPrefix} ${fixture.round}`
+    : `${prefix}Round ${fixture.round}`;
+}
+
+/**
+ * Number of rounds in one bracket of a generated tournament.
+ */
+export function getBracketRoundCount(
+  bracket: BracketKind,
+  fixtures: TournamentFixture[]
+): number {
+  return Math.max(
+    0,
+    ...fixtures.filter((fixture) => fixture.bracket === bracket).map((fixture) => fixture.round)
+  );
 }
 
 /**
@@ -17,18 +17,191 @@ function parseTimeParts(startTime: string | null | undefined): { hours: number;
   return { hours, minutes };
 }
 
-export function weekStartIso(
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00.000Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/** First date on or after `date` that falls on `weekday` (0 = Sunday). */
+export function weekdayOnOrAfter(date: string, weekday: number): string {
+  const day = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return shiftDate(date, (weekday - day + 7) % 7);
+}
+
+/**
+ * Dates a week's match nights fall on: each of `matchWeekdays` within the 7
+ * days from `weekDate`, in date order, or `weekDate` itself when none are given.
+ */
+export function matchDayDates(weekDate: string, matchWeekdays: readonly number[] = []): string[] {
+  if (matchWeekdays.length === 0) return [weekDate];
+  return [...new Set(matchWeekdays.map((weekday) => weekdayOnOrAfter(weekDate, weekday)))].sort();
+}
+
+/**
+ * Date (YYYY-MM-DD) of a league week. Weeks are 7 days apart from `startDate`;
+ * a week whose match nights are all blacked out is skipped and the count moves
+ * on to the next free week.
+ */
+export function weekStartDate(
   startDate: string | null,
   weekNumber: number,
-  startTime: string | null = null
+  blackoutDates: readonly string[] = [],
+  matchWeekdays: readonly number[] = []
 ): string | null {
   if (!startDate) return null;
+  if (Number.isNaN(new Date(`${startDate}T00:00:00.000Z`).getTime())) return null;
+
+  const blackout = new Set(blackoutDates);
+  const isFree = (date: string) =>
+    matchDayDates(date, matchWeekdays).some((matchDate) => !blackout.has(matchDate));
+
+  let date = startDate;
+  let counted = isFree(date) ? 1 : 0;
+  while (counted < weekNumber || !isFree(date)) {
+    date = shiftDate(date, 7);
+    if (isFree(date)) counted += 1;
+  }
+  return date;
+}
+
+/** UTC ISO timestamp for a local "HH:MM" start (noon when invalid) on `date`. */
+export function dateTimeIso(
+  date: string | null,
+  startTime: string | null,
+  timeZone = 'UTC'
+): string | null {
+  if (!date) return null;
   const { hours, minutes } = parseTimeParts(startTime);
-  const base = new Date(`${startDate}T00:00:00.000Z`);
-  if (Number.isNaN(base.getTime())) return null;
-  base.setUTCDate(base.getUTCDate() + (weekNumber - 1) * 7);
-  base.setUTCHours(hours, minutes, 0, 0);
-  return base.toISOString();
+  return zonedTimeToIso(date, hours, minutes, timeZone);
+}
+
+export function weekStartIso(
+  startDate: string | null,
+  weekNumber: number,
+  startTime: string | null = null,
+  blackoutDates: readonly string[] = [],
+  timeZone = 'UTC'
+): string | null {
+  return dateTimeIso(weekStartDate(startDate, weekNumber, blackoutDates), startTime, timeZone);
+}
+
+/**
+ * Submission deadline for a week-long session: six days after it starts at the
+ * same local time, pulled back to the last day before any blackout at the end
+ * of that window.
+ */
+export function sessionDeadlineIso(
+  startsAt: string | null,
+  blackoutDates: readonly string[] = [],
+  timeZone = 'UTC'
+): string | null {
+  if (!startsAt) return null;
+  const start = new Date(startsAt);
+  if (Number.isNaN(start.getTime())) return null;
+
+  const local = getZonedParts(start, timeZone);
+  const blackout = new Set(blackoutDates);
+  let offset = 6;
+  while (offset > 0 && blackout.has(shiftDate(local.date, offset))) {
+    offset -= 1;
+  }
+  return zonedTimeToIso(shiftDate(local.date, offset), local.hours, local.minutes, timeZone);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+type ZonedParts = { date: string; hours: number; minutes: number; seconds: number };
+
+function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value || '00';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hours: Number(get('hour')),
+    minutes: Number(get('minute')),
+    seconds: Number(get('second')),
+  };
+}
+
+/** Minutes the zone is ahead of UTC at the given instant. */
+function getZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const local = getZonedParts(instant, timeZone);
+  const localAsUtc = new Date(`${local.date}T00:00:00.000Z`);
+  localAsUtc.setUTCHours(local.hours, local.minutes, local.seconds, 0);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((localAsUtc.getTime() - wholeSeconds) / 60000);
+}
+
+/**
+ * UTC ISO timestamp for a wall-clock time in `timeZone`. Clock times skipped
+ * by a daylight saving change move forward by the size of the jump.
+ */
+export function zonedTimeToIso(
+  date: string,
+  hours: number,
+  minutes: number,
+  timeZone = 'UTC'
+): string | null {
+  const guess = new Date(`${date}T00:00:00.000Z`);
+  if (Number.isNaN(guess.getTime())) return null;
+  guess.setUTCHours(hours, minutes, 0, 0);
+
+  const firstOffset = getZoneOffsetMinutes(guess, timeZone);
+  const firstInstant = guess.getTime() - firstOffset * 60000;
+  const secondOffset = getZoneOffsetMinutes(new Date(firstInstant), timeZone);
+  if (secondOffset === firstOffset) return new Date(firstInstant).toISOString();
+
+  const secondInstant = guess.getTime() - secondOffset * 60000;
+  if (getZoneOffsetMinutes(new Date(secondInstant), timeZone) === secondOffset) {
+    return new Date(secondInstant).toISOString();
+  }
+  // The clock time falls in a daylight saving gap.
+  const gapOffset = Math.min(firstOffset, secondOffset);
+  return new Date(guess.getTime() - gapOffset * 60000).toISOString();
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in `timeZone`. */
+export function toLocalDate(value: string | null, timeZone = 'UTC'): string | null {
+  if (!value) return null;
+  const instant = new Date(value);
+  if (Number.isNaN(instant.getTime())) return null;
+  return getZonedParts(instant, timeZone).date;
+}
+
+/** An instant as local wall-clock time with its UTC offset, e.g. 2026-03-01T19:00:00-05:00. */
+export function toLocalIso(value: string | null, timeZone = 'UTC'): string | null {
+  if (!value) return null;
+  const instant = new Date(value);
+  if (Number.isNaN(instant.getTime())) return null;
+
+  const local = getZonedParts(instant, timeZone);
+  const offset = getZoneOffsetMinutes(instant, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const pad = (part: number) => String(part).padStart(2, '0');
+  const absolute = Math.abs(offset);
+  return (
+    `${local.date}T${pad(local.hours)}:${pad(local.minutes)}:${pad(local.seconds)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+  );
 }
 
 export function weekEndIso(startsAt: string | null): string | null {
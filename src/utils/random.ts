@@ -0,0 +1,40 @@
+import { randomBytes } from 'node:crypto';
+
+/** Returns floats in [0, 1), like Math.random. */
+export type RandomSource = () => number;
+
+export function generateSeed(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/** FNV-1a hash of the seed string, used as the PRNG's starting state. */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Deterministic mulberry32 generator: the same seed always yields the same sequence. */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher-Yates shuffle into a new array. */
+export function shuffle<T>(items: readonly T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}